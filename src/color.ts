@@ -0,0 +1,314 @@
+import { STATUS_BAR_COLOR_DARK, STATUS_BAR_COLOR_LIGHT } from "./constants/defaults";
+
+// A parsed CSS color: channels 0-255, alpha 0-1
+export interface Rgba {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl';
+
+// CSS named colors (CSS Color Module Level 4)
+const NAMED_COLORS: Record<string, string> = {
+    aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4', azure: '#f0ffff',
+    beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000', blanchedalmond: '#ffebcd', blue: '#0000ff',
+    blueviolet: '#8a2be2', brown: '#a52a2a', burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00',
+    chocolate: '#d2691e', coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+    cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b', darkgray: '#a9a9a9',
+    darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b', darkmagenta: '#8b008b', darkolivegreen: '#556b2f',
+    darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f',
+    darkslateblue: '#483d8b', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3',
+    deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969', dodgerblue: '#1e90ff',
+    firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff', gainsboro: '#dcdcdc',
+    ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520', gray: '#808080', green: '#008000',
+    greenyellow: '#adff2f', grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+    indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa', lavenderblush: '#fff0f5',
+    lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080', lightcyan: '#e0ffff',
+    lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3', lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1',
+    lightsalmon: '#ffa07a', lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899',
+    lightsteelblue: '#b0c4de', lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6',
+    magenta: '#ff00ff', maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3',
+    mediumpurple: '#9370db', mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc',
+    mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+    navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23',
+    orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+    paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f',
+    pink: '#ffc0cb', plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+    red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072',
+    sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee', sienna: '#a0522d', silver: '#c0c0c0',
+    skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090', slategrey: '#708090', snow: '#fffafa',
+    springgreen: '#00ff7f', steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+    tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3', white: '#ffffff',
+    whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+    transparent: '#00000000',
+};
+
+const HEX_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/;
+const FUNCTION_REGEX = /^(rgba?|hsla?)\((.*)\)$/;
+const NUMBER_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+const THEME_VARIABLE_REGEX = /^var\(\s*(--[A-Za-z0-9_-]+)\s*\)$/;
+
+// --- Parsing ---
+
+/**
+ * Parses any CSS color syntax: `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`,
+ * `rgb()`/`rgba()` and `hsl()`/`hsla()` in comma or space syntax, and named
+ * colors. Returns null for anything else, e.g. `var(--text-accent)`.
+ */
+export function parseColor(value: string): Rgba | null {
+    const color = value.trim().toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, color)) return parseHex(NAMED_COLORS[color]);
+    if (color.startsWith('#')) return parseHex(color);
+
+    const match = color.match(FUNCTION_REGEX);
+    if (!match) return null;
+    const args = splitArguments(match[2]);
+    if (!args) return null;
+    return match[1].startsWith('rgb') ? parseRgbArguments(args) : parseHslArguments(args);
+}
+
+export function isValidColor(value: string): boolean {
+    return parseColor(value) !== null;
+}
+
+// Theme variable a color refers to, e.g. `--color-red` for `var(--color-red)`
+export function getThemeVariable(value: string): string | null {
+    return value.trim().match(THEME_VARIABLE_REGEX)?.[1] ?? null;
+}
+
+function parseHex(hex: string): Rgba | null {
+    const match = hex.match(HEX_REGEX);
+    if (!match) return null;
+    let digits = match[1];
+    if (digits.length <= 4) digits = digits.split('').map(digit => digit + digit).join('');
+    return {
+        r: parseInt(digits.substring(0, 2), 16),
+        g: parseInt(digits.substring(2, 4), 16),
+        b: parseInt(digits.substring(4, 6), 16),
+        a: digits.length === 8 ? parseInt(digits.substring(6, 8), 16) / 255 : 1,
+    };
+}
+
+// `1, 2, 3, 0.5` or `1 2 3 / 50%` -> three channels and an optional alpha
+function splitArguments(args: string): string[] | null {
+    let parts: string[];
+    if (args.includes(',')) {
+        parts = args.split(',').map(part => part.trim());
+    } else {
+        const [channels, alpha, ...rest] = args.split('/');
+        if (rest.length > 0) return null;
+        parts = channels.trim().split(/\s+/);
+        if (alpha !== undefined) parts.push(alpha.trim());
+    }
+    return parts.length === 3 || parts.length === 4 ? parts : null;
+}
+
+function parseRgbArguments(args: string[]): Rgba | null {
+    const channels = args.slice(0, 3).map(arg => parseNumber(arg, 255));
+    const alpha = parseAlpha(args[3]);
+    if (channels.some(channel => channel === null) || alpha === null) return null;
+    const [r, g, b] = channels as number[];
+    return { r: clampChannel(r), g: clampChannel(g), b: clampChannel(b), a: alpha };
+}
+
+function parseHslArguments(args: string[]): Rgba | null {
+    const hue = parseHue(args[0]);
+    const saturation = parseNumber(args[1], 100);
+    const lightness = parseNumber(args[2], 100);
+    const alpha = parseAlpha(args[3]);
+    if (hue === null || saturation === null || lightness === null || alpha === null) return null;
+    return { ...hslToRgb(hue, clamp(saturation / 100, 0, 1), clamp(lightness / 100, 0, 1)), a: alpha };
+}
+
+// A number, or a percentage of `percentBase`
+function parseNumber(arg: string, percentBase: number): number | null {
+    const isPercent = arg.endsWith('%');
+    const number = isPercent ? arg.slice(0, -1) : arg;
+    if (!NUMBER_REGEX.test(number)) return null;
+    return isPercent ? parseFloat(number) / 100 * percentBase : parseFloat(number);
+}
+
+function parseAlpha(arg: string | undefined): number | null {
+    if (arg === undefined) return 1;
+    const alpha = parseNumber(arg, 1);
+    return alpha === null ? null : clamp(alpha, 0, 1);
+}
+
+// Degrees, with or without a `deg`, `rad` or `turn` unit
+function parseHue(arg: string): number | null {
+    const match = arg.match(/^(.*?)(deg|rad|turn)?$/);
+    if (!match || !NUMBER_REGEX.test(match[1])) return null;
+    const value = parseFloat(match[1]);
+    const degrees = match[2] === 'rad' ? value * 180 / Math.PI : match[2] === 'turn' ? value * 360 : value;
+    return ((degrees % 360) + 360) % 360;
+}
+
+// --- Serializing ---
+
+// `#rrggbb`, or `#rrggbbaa` for translucent colors
+export function toHex(color: Rgba): string {
+    const channels = [color.r, color.g, color.b];
+    if (color.a < 1) channels.push(color.a * 255);
+    return `#${channels.map(channel => clampChannel(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function toRgbString(color: Rgba): string {
+    const channels = [color.r, color.g, color.b].map(clampChannel).join(', ');
+    return color.a < 1 ? `rgba(${channels}, ${roundAlpha(color.a)})` : `rgb(${channels})`;
+}
+
+export function toHslString(color: Rgba): string {
+    const { h, s, l } = rgbToHsl(color);
+    const channels = `${Math.round(h)}, ${Math.round(s * 100)}%, ${Math.round(l * 100)}%`;
+    return color.a < 1 ? `hsla(${channels}, ${roundAlpha(color.a)})` : `hsl(${channels})`;
+}
+
+export function formatColor(color: Rgba, format: ColorFormat): string {
+    if (format === 'rgb') return toRgbString(color);
+    if (format === 'hsl') return toHslString(color);
+    return toHex(color);
+}
+
+// --- Comparison ---
+
+/**
+ * Key under which a color is compared: the hex form of any parseable color,
+ * so `#FF0000`, `#f00`, `red` and `rgb(255,0,0)` share one key. A theme
+ * variable is its own color, whatever it currently resolves to. Other values
+ * are compared as written.
+ */
+export function normalizeColor(value: string): string {
+    const color = parseColor(value);
+    if (color) return toHex(color);
+    const variable = getThemeVariable(value); // Custom property names are case-sensitive
+    return variable ? `var(${variable})` : value.trim().toLowerCase();
+}
+
+export function isSameColor(a: string, b: string): boolean {
+    return normalizeColor(a) === normalizeColor(b);
+}
+
+// Opaque `#rrggbb` for color inputs, which accept nothing else
+export function toPickerHex(color: Rgba | null, fallback = '#000000'): string {
+    return color ? toHex({ ...color, a: 1 }) : fallback;
+}
+
+// `color` with the opacity of `source`, e.g. to keep a slot's alpha when picking an opaque color
+export function withAlphaOf(color: string, source: string): string {
+    const parsed = parseColor(color);
+    const alpha = parseColor(source)?.a ?? 1;
+    return parsed ? toHex({ ...parsed, a: alpha }) : color;
+}
+
+export function setAlpha(color: Rgba, alpha: number): Rgba {
+    return { ...color, a: clamp(alpha, 0, 1) };
+}
+
+// Gray border that stands out against a palette cell on the status bar of the given theme
+export function getContrastBorderColor(cellColor: string, curTheme: string): string {
+    const cell = parseColor(cellColor) ?? { r: 0, g: 0, b: 0, a: 1 };
+    const statusBar = parseColor(curTheme === 'dark' ? STATUS_BAR_COLOR_DARK : STATUS_BAR_COLOR_LIGHT) as Rgba;
+
+    const average = [(cell.r + statusBar.r) / 2, (cell.g + statusBar.g) / 2, (cell.b + statusBar.b) / 2];
+    const gray = average.reduce((sum, channel) => sum + (255 - channel), 0) / 3;
+    return toHex({ r: gray, g: gray, b: gray, a: 1 });
+}
+
+// --- Contrast ---
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+// WCAG relative luminance, ignoring alpha
+export function getRelativeLuminance(color: Rgba): number {
+    const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// WCAG contrast ratio between two opaque colors, from 1 to 21
+export function getContrastRatio(a: Rgba, b: Rgba): number {
+    const luminanceA = getRelativeLuminance(a);
+    const luminanceB = getRelativeLuminance(b);
+    return (Math.max(luminanceA, luminanceB) + 0.05) / (Math.min(luminanceA, luminanceB) + 0.05);
+}
+
+// The opaque color seen when `color` is painted over `backdrop`
+export function blendOver(color: Rgba, backdrop: Rgba): Rgba {
+    const mix = (top: number, bottom: number) => top * color.a + bottom * (1 - color.a);
+    return { r: mix(color.r, backdrop.r), g: mix(color.g, backdrop.g), b: mix(color.b, backdrop.b), a: 1 };
+}
+
+/**
+ * Nearest color of the same hue and saturation that reaches `minRatio` against
+ * `against`, found by changing only the lightness. Translucent colors are
+ * measured blended over `backdrop`. A color that already passes is returned as
+ * is; if no lightness passes, the lightest or darkest variant is returned.
+ */
+export function adjustForContrast(color: Rgba, against: Rgba, minRatio: number, backdrop: Rgba = against): Rgba {
+    const ratioOf = (candidate: Rgba) => getContrastRatio(blendOver(candidate, backdrop), against);
+    if (ratioOf(color) >= minRatio) return color;
+
+    const { h, s, l } = rgbToHsl(color);
+    const withLightness = (lightness: number): Rgba => ({ ...hslToRgb(h, s, lightness), a: color.a });
+    // Move away from `against`: lighter against dark colors, darker against light ones
+    const extreme = getContrastRatio(WHITE, against) >= getContrastRatio(BLACK, against) ? 1 : 0;
+    if (ratioOf(withLightness(extreme)) < minRatio) return withLightness(extreme);
+
+    let passing = extreme;
+    let failing = l;
+    while (Math.abs(passing - failing) > 0.001) {
+        const middle = (passing + failing) / 2;
+        if (ratioOf(withLightness(middle)) >= minRatio) {
+            passing = middle;
+        } else {
+            failing = middle;
+        }
+    }
+    return withLightness(passing);
+}
+
+// --- Conversions ---
+
+function hslToRgb(h: number, s: number, l: number): Omit<Rgba, 'a'> {
+    const chroma = (1 - Math.abs(2 * l - 1)) * s;
+    const x = chroma * (1 - Math.abs((h / 60) % 2 - 1));
+    const m = l - chroma / 2;
+    const [r, g, b] = h < 60 ? [chroma, x, 0]
+        : h < 120 ? [x, chroma, 0]
+        : h < 180 ? [0, chroma, x]
+        : h < 240 ? [0, x, chroma]
+        : h < 300 ? [x, 0, chroma]
+        : [chroma, 0, x];
+    return { r: clampChannel((r + m) * 255), g: clampChannel((g + m) * 255), b: clampChannel((b + m) * 255) };
+}
+
+function rgbToHsl(color: Rgba): { h: number, s: number, l: number } {
+    const r = color.r / 255, g = color.g / 255, b = color.b / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const delta = max - min;
+    if (delta === 0) return { h: 0, s: 0, l };
+
+    const s = delta / (1 - Math.abs(2 * l - 1));
+    const h = max === r ? ((g - b) / delta + 6) % 6
+        : max === g ? (b - r) / delta + 2
+        : (r - g) / delta + 4;
+    return { h: h * 60, s, l };
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function clampChannel(value: number): number {
+    return Math.round(clamp(value, 0, 255));
+}
+
+function roundAlpha(alpha: number): number {
+    return Math.round(alpha * 100) / 100;
+}
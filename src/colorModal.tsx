@@ -1,38 +1,51 @@
-import { App, Modal, Setting } from "obsidian";
+import { App, ColorComponent, Modal, Setting, SliderComponent, TextComponent } from "obsidian";
 import React from "react";
 import { Root, createRoot } from "react-dom/client";
 import TextStyler from "./main";
 // Assuming ColorPalette component exists and is adapted as needed (like original)
 import ColorPalette from "./components/ColorPalette";
-import { hexToRgb, rgbToHex } from "./utils"; // Assuming utils file
+import { formatColorTooltip } from "./utils"; // Assuming utils file
+import { Rgba, adjustForContrast, blendOver, getContrastRatio, getThemeVariable, normalizeColor, parseColor, setAlpha, toHex, toPickerHex, withAlphaOf } from "./color";
+import { THEME_COLORS, WCAG_AA_CONTRAST, WCAG_AAA_CONTRAST } from "./constants";
 
 interface ColorModalProps {
     app: App;
     plugin: TextStyler;
-    initialColor: string; // Expect HEX format now
+    initialColor: string; // Any CSS color or theme variable reference
     colorType: 'text' | 'highlight';
-    onSubmit: (result: string) => void; // Result is HEX string
+    slotIndex?: number; // Slot being edited, if any; its label is shown in the title
+    onSubmit: (result: string) => void; // Result is HEX, or `var(--name)` for theme colors
 }
 
 export class ColorModal extends Modal {
     private props: ColorModalProps;
-    private colorResult: string; // Stores HEX color
+    private colorResult: string; // Stores HEX color or theme variable reference
     private colorPaletteRoot: Root | null = null;
+    private colorText: TextComponent | null = null;
+    private colorPicker: ColorComponent | null = null;
+    private opacitySlider: SliderComponent | null = null;
+    private previewEl: HTMLElement | null = null; // Highlight preview next to the opacity slider
+    private contrastEl: HTMLElement | null = null;
 
     constructor(props: ColorModalProps) {
         super(props.app);
         this.props = props;
         // Ensure initial color is HEX
-        this.colorResult = props.initialColor.startsWith('#') ? props.initialColor : rgbToHex(props.initialColor);
+        this.colorResult = normalizeColor(props.initialColor);
     }
 
     onOpen() {
         const { contentEl } = this;
-        const { plugin, colorType, onSubmit } = this.props;
+        const { plugin, colorType, slotIndex, onSubmit } = this.props;
         const title = colorType === 'text' ? "Select Text Color" : "Select Highlight Color";
         const favoriteColors = colorType === 'text' ? plugin.settings.favoriteTextColors : plugin.settings.favoriteHighlightColors;
+        const favoriteLabels = colorType === 'text' ? plugin.settings.favoriteTextColorLabels : plugin.settings.favoriteHighlightColorLabels;
+        const slotLabel = slotIndex !== undefined ? plugin.getSlotLabel(colorType, slotIndex) : null;
 
-        contentEl.createEl("h1", { text: title });
+        contentEl.createEl("h1", { text: slotLabel ? `${title}: ${slotLabel.label}` : title });
+        if (slotLabel?.description) {
+            contentEl.createEl("p", { text: slotLabel.description, cls: 'setting-item-description' });
+        }
         const paletteContainer = contentEl.createDiv(); // Container for React component
         this.colorPaletteRoot = createRoot(paletteContainer);
 
@@ -47,6 +60,7 @@ export class ColorModal extends Modal {
                  <div className="setting-item-control">
                     <ColorPalette
                         colors={favoriteColors}
+                        tooltips={favoriteColors.map((color, i) => formatColorTooltip(color, favoriteLabels[i] ?? null))}
                         onModalColorClick={this.onPaletteColorClick}
                     />
                  </div>
@@ -54,16 +68,66 @@ export class ColorModal extends Modal {
             </React.StrictMode>
         );
 
-        // Obsidian's Native Color Picker
+        // Theme variables follow the theme of whoever views the note
+        const themeColorsSetting = new Setting(contentEl)
+            .setName("Theme Colors")
+            .setDesc("Follow the active theme instead of a fixed color.");
+        const themeColorsEl = themeColorsSetting.controlEl.createDiv({ cls: 'styler-theme-colors' });
+        THEME_COLORS[colorType].forEach(([variable, name]) => {
+            const swatchEl = themeColorsEl.createEl('button', { cls: 'styler-theme-color' });
+            swatchEl.style.backgroundColor = `var(${variable})`;
+            swatchEl.setAttribute('aria-label', `${name} (var(${variable}))`);
+            swatchEl.addEventListener('click', () => this.setColor(`var(${variable})`));
+        });
+
+        // Any CSS color as text, next to Obsidian's Native Color Picker
         new Setting(contentEl)
             .setName("Custom Color")
-            .setDesc("Pick any color or enter a HEX value.")
-            .addColorPicker((color) => color
-                .setValue(this.colorResult) // Use HEX
-                .onChange((value) => {
-                    this.colorResult = value; // Already HEX
-                })
-            );
+            .setDesc("Pick a color or enter any CSS color: hex, rgb(), hsl(), a color name or a theme variable like var(--color-red).")
+            .addText((text) => {
+                this.colorText = text;
+                text.setPlaceholder("#ff0000")
+                    .setValue(this.colorResult)
+                    .onChange((value) => {
+                        const isColor = parseColor(value) !== null || getThemeVariable(value) !== null;
+                        text.inputEl.toggleClass('styler-invalid-color', !isColor && value.trim() !== '');
+                        if (!isColor) return;
+                        this.colorResult = normalizeColor(value);
+                        this.updateColorDetails();
+                    });
+            })
+            .addColorPicker((color) => {
+                this.colorPicker = color; // Set to the current color by updateColorDetails, as opaque HEX
+                color.onChange((value) => {
+                    this.colorResult = withAlphaOf(value, this.colorResult); // Keep the chosen opacity
+                    this.setColorText(this.colorResult);
+                    this.updateColorDetails();
+                });
+            });
+
+        // Highlights can be translucent, so text stays readable and stacked highlights show through
+        if (colorType === 'highlight') {
+            const opacitySetting = new Setting(contentEl)
+                .setName("Opacity")
+                .setDesc("Stored with the color. The global highlight opacity applies on top.")
+                .addSlider((slider) => {
+                    this.opacitySlider = slider;
+                    slider.setLimits(0, 100, 1)
+                        .setDynamicTooltip()
+                        .onChange((value) => {
+                            const color = parseColor(this.colorResult);
+                            if (!color || Math.round(color.a * 100) === value) return;
+                            this.colorResult = toHex(setAlpha(color, value / 100));
+                            this.setColorText(this.colorResult);
+                            this.updateColorDetails();
+                        });
+                });
+            this.previewEl = opacitySetting.controlEl.createSpan({ text: "Highlighted text", cls: 'styler-highlighted styler-opacity-preview' });
+        }
+
+        // Contrast in the current theme, updated as the color changes
+        this.contrastEl = contentEl.createDiv({ cls: 'styler-contrast' });
+        this.updateColorDetails();
 
         // Submit Button
         new Setting(contentEl)
@@ -83,16 +147,103 @@ export class ColorModal extends Modal {
             this.colorPaletteRoot.unmount();
             this.colorPaletteRoot = null;
         }
+        this.colorText = null;
+        this.colorPicker = null;
+        this.opacitySlider = null;
+        this.previewEl = null;
+        this.contrastEl = null;
         this.contentEl.empty();
     }
 
-    // Callback from React component
-    onPaletteColorClick = (color: string) => { // Expects HEX from palette
-        this.colorResult = color;
-        // Maybe update the native picker visually? Optional.
-        const nativePicker = this.contentEl.querySelector('.setting-item-control input[type="color"]') as HTMLInputElement;
-        if (nativePicker) {
-            nativePicker.value = color;
+    // Syncs the color picker, opacity slider, preview and contrast with the current color
+    private updateColorDetails() {
+        const color = this.props.plugin.themeColors.resolveColor(this.colorResult);
+        const isThemeColor = getThemeVariable(this.colorResult) !== null;
+        this.colorPicker?.setValue(toPickerHex(color));
+        // A theme variable has no opacity of its own to store
+        this.opacitySlider?.setDisabled(isThemeColor);
+        if (color) this.opacitySlider?.setValue(Math.round(color.a * 100));
+        this.previewEl?.style.setProperty('--styler-highlight-color', this.colorResult);
+        this.updateContrast(color, isThemeColor);
+    }
+
+    /**
+     * WCAG contrast of the color in the current theme: text colors against the
+     * background, highlights against the text drawn on them. Highlights are
+     * measured as seen, blended over the background at the global opacity.
+     */
+    private updateContrast(color: Rgba | null, isThemeColor: boolean) {
+        const { contrastEl } = this;
+        if (!contrastEl) return;
+        contrastEl.empty();
+        contrastEl.createDiv({ text: "Contrast in the current theme", cls: 'setting-item-name' });
+        if (!color) {
+            contrastEl.createDiv({ text: "The contrast of this color cannot be measured.", cls: 'setting-item-description' });
+            return;
+        }
+        if (isThemeColor) {
+            contrastEl.createDiv({ text: "Measured with the theme's current value; other themes may differ.", cls: 'setting-item-description' });
+        }
+
+        const { plugin, colorType } = this.props;
+        const theme = plugin.themeColors.getThemeColors();
+        const isHighlight = colorType === 'highlight';
+        const opacity = isHighlight ? plugin.settings.highlightOpacity / 100 : 1;
+        const seenColor = (candidate: Rgba) => blendOver(setAlpha(candidate, candidate.a * opacity), theme.background);
+        const readability = (candidate: Rgba) => getContrastRatio(isHighlight ? theme.text : theme.background, seenColor(candidate));
+
+        const backgroundRatio = getContrastRatio(seenColor(color), theme.background);
+        this.renderContrastRow(contrastEl, isHighlight ? "Against the background" : "Text on the background", backgroundRatio, !isHighlight);
+        if (isHighlight) this.renderContrastRow(contrastEl, "Text on the highlight", readability(color), true);
+        if (readability(color) >= WCAG_AA_CONTRAST) return;
+
+        // Nearest color of the same hue that passes AA, measured the same way
+        const suggestion = setAlpha(isHighlight
+            ? adjustForContrast(setAlpha(color, color.a * opacity), theme.text, WCAG_AA_CONTRAST, theme.background)
+            : adjustForContrast(color, theme.background, WCAG_AA_CONTRAST), color.a);
+        const warningEl = contrastEl.createDiv({ cls: 'styler-contrast-warning' });
+        if (readability(suggestion) < WCAG_AA_CONTRAST) {
+            warningEl.setText(`Hard to read in this theme, and no shade of this hue reaches ${WCAG_AA_CONTRAST}:1${isHighlight ? "; try a lower opacity" : ""}.`);
+            return;
         }
+        warningEl.setText("Hard to read in this theme. Nearest readable color: ");
+        const suggestionHex = toHex(suggestion);
+        warningEl.createSpan({ cls: 'styler-contrast-swatch' }).style.backgroundColor = suggestionHex;
+        warningEl.createEl('code', { text: suggestionHex });
+        const useButton = warningEl.createEl('button', { text: "Use" });
+        useButton.addEventListener('click', () => this.setColor(suggestionHex));
+    }
+
+    // Ratio with pass or fail badges for AA and AAA, or the ratio alone if it is informational
+    private renderContrastRow(containerEl: HTMLElement, name: string, ratio: number, showBadges: boolean) {
+        const rowEl = containerEl.createDiv({ cls: 'styler-contrast-row' });
+        rowEl.createSpan({ text: name });
+        rowEl.createSpan({ text: `${ratio.toFixed(2)}:1`, cls: 'styler-contrast-ratio' });
+        if (!showBadges) return;
+        ([["AA", WCAG_AA_CONTRAST], ["AAA", WCAG_AAA_CONTRAST]] as const).forEach(([level, minRatio]) => {
+            const passes = ratio >= minRatio;
+            const badgeEl = rowEl.createSpan({
+                text: `${level} ${passes ? "pass" : "fail"}`,
+                cls: ['styler-contrast-badge', passes ? 'is-pass' : 'is-fail'],
+            });
+            badgeEl.setAttribute('aria-label', `${level} needs ${minRatio}:1`);
+        });
+    }
+
+    // Selects a color and updates every control showing it
+    private setColor(color: string) {
+        this.colorResult = normalizeColor(color);
+        this.setColorText(this.colorResult);
+        this.updateColorDetails();
+    }
+
+    private setColorText(color: string) {
+        this.colorText?.setValue(color);
+        this.colorText?.inputEl.removeClass('styler-invalid-color');
+    }
+
+    // Callback from React component
+    onPaletteColorClick = (color: string) => { // Favorites may use any CSS color
+        this.setColor(color);
     }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import styled from "styled-components";
+import { isSameColor } from "../../color";
 
 // Define constants for colors and effects
 const BORDER_COLOR = "var(--text-faint)"; // Use Obsidian CSS variable for faint border
@@ -60,7 +61,7 @@ export const ColorItem = styled.button<ColorItemProps>`
 
   /* Edge Case: Make very light colors visible on light backgrounds */
   /* Add subtle inner shadow for white/very light colors */
-  ${p => ['#ffffff', '#fff', 'rgb(255, 255, 255)'].includes(p.color.toLowerCase()) ? `
+  ${p => isSameColor(p.color, '#ffffff') ? `
       box-shadow: inset 0 0 0 1px rgba(0,0,0,0.1); /* Subtle inner border */
       &:disabled {
           /* Combine inner border with selected state shadow */
@@ -3,11 +3,13 @@ import * as S from "./Styles";
 
 interface ColorPickerProps {
   colors: string[];
+  tooltips?: string[]; // Per color, defaults to the color value
   onModalColorClick?: (e?: any) => void;
 }
 
 const ColorPalette = ({
   colors,
+  tooltips = [],
   onModalColorClick = () => {},
 }: ColorPickerProps) => {
   const [selected, setSelected] = useState<string>("");
@@ -23,6 +25,8 @@ const ColorPalette = ({
         return <S.ColorItem
           key={`${c}-${i}`}
           color={c}
+          title={tooltips[i] || c}
+          aria-label={tooltips[i] || c}
           onClick={onColorClick(c)}
           disabled={c === selected}
         />
@@ -1,4 +1,4 @@
-import { PluginSettings } from "./types";
+import { MarkdownStyleType, PluginSettings, StyleType, ToolbarButton } from "./types";
 
 export const MAX_COLOR_SLOTS = 20;
 export const DEFAULT_COLOR_SLOTS = 5;
@@ -7,7 +7,53 @@ export const DEFAULT_HIGHLIGHT_COLOR = '#ffff00'; // Yellow default highlight
 
 export const DEFAULT_COLORED_UNDERLINE_THICKNESS = 3; // Default pixels
 export const DEFAULT_CIRCLE_THICKNESS = 1;          // Default pixels
+export const DEFAULT_HIGHLIGHT_OPACITY = 100;       // Percent
 
+// Obsidian's default theme colors, for when the active theme's cannot be read
+export const DARK_THEME_BACKGROUND = '#1e1e1e';
+export const DARK_THEME_TEXT_COLOR = '#dadada';
+export const LIGHT_THEME_BACKGROUND = '#ffffff';
+export const LIGHT_THEME_TEXT_COLOR = '#222222';
+
+// WCAG contrast ratios for normal text
+export const WCAG_AA_CONTRAST = 4.5;
+export const WCAG_AAA_CONTRAST = 7;
+export const MIN_ADAPTED_CONTRAST = WCAG_AA_CONTRAST;
+
+// Obsidian theme variables offered as colors: [variable, display name]
+const THEME_ACCENT_COLORS: readonly [string, string][] = [
+    ['--color-red', "Red"],
+    ['--color-orange', "Orange"],
+    ['--color-yellow', "Yellow"],
+    ['--color-green', "Green"],
+    ['--color-cyan', "Cyan"],
+    ['--color-blue', "Blue"],
+    ['--color-purple', "Purple"],
+    ['--color-pink', "Pink"],
+];
+export const THEME_COLORS: Readonly<Record<'text' | 'highlight', readonly [string, string][]>> = {
+    text: [
+        ['--text-normal', "Normal Text"],
+        ['--text-muted', "Muted Text"],
+        ['--text-accent', "Accent"],
+        ['--text-error', "Error"],
+        ['--text-success', "Success"],
+        ...THEME_ACCENT_COLORS,
+    ],
+    highlight: [
+        ['--text-highlight-bg', "Highlight"],
+        ['--text-selection', "Selection"],
+        ['--interactive-accent', "Accent"],
+        ...THEME_ACCENT_COLORS,
+    ],
+};
+
+
+// Workspace view listing the styled text of the active note
+export const VIEW_TYPE_STYLE_INSPECTOR = 'styler-inspector';
+
+// Appended to the note or folder name to name its highlight summary note
+export const SUMMARY_NOTE_SUFFIX = ' Highlights';
 
 // Base class prefix to avoid conflicts
 export const CLASS_PREFIX = 'styler-';
@@ -25,6 +71,46 @@ export const StyleClasses = {
 
 };
 
+// Styles whose value (a color) is part of the style
+export const VALUE_STYLE_TYPES: readonly StyleType[] = ['color', 'highlight', 'colored-underline', 'circled'];
+
+// Display names for every style type
+export const STYLE_TYPE_NAMES: Readonly<Record<StyleType, string>> = {
+    'bold': "Bold",
+    'italic': "Italic",
+    'underline': "Underline",
+    'strike': "Strikethrough",
+    'color': "Text Color",
+    'highlight': "Highlight",
+    'colored-underline': "Colored Underline",
+    'circled': "Circled",
+};
+
+// Icon of every style type
+export const STYLE_TYPE_ICONS: Readonly<Record<StyleType, string>> = {
+    'bold': "bold",
+    'italic': "italic",
+    'underline': "underline",
+    'strike': "strikethrough",
+    'color': "palette",
+    'highlight': "highlighter",
+    'colored-underline': "baseline",
+    'circled': "circle",
+};
+
+// Every floating toolbar button, in display order
+export const TOOLBAR_BUTTONS: readonly ToolbarButton[] = [
+    'bold', 'italic', 'underline', 'strike', 'color', 'highlight', 'colored-underline', 'circled', 'remove-all',
+];
+
+// Native Markdown delimiters for styles that have one
+export const MARKDOWN_MARKERS: Readonly<Record<MarkdownStyleType, string>> = {
+    'bold': '**',
+    'italic': '*',
+    'strike': '~~',
+    'highlight': '==',
+};
+
 export const DEFAULT_SETTINGS: Readonly<PluginSettings> = {
     textColorSlots: DEFAULT_COLOR_SLOTS,
     textColors: Array(DEFAULT_COLOR_SLOTS).fill(DEFAULT_TEXT_COLOR),
@@ -32,6 +118,8 @@ export const DEFAULT_SETTINGS: Readonly<PluginSettings> = {
         "#c00000", "#ff0000", "#ffc000", "#ffff00", "#92d050",
         "#00b050", "#00b0f0", "#0070c0", "#002060", "#7030a0"
     ],
+    textColorLabels: [],
+    favoriteTextColorLabels: [],
     selectedTextColorIndex: 0,
 
     highlightColorSlots: DEFAULT_COLOR_SLOTS,
@@ -44,9 +132,47 @@ export const DEFAULT_SETTINGS: Readonly<PluginSettings> = {
         "#FFBDBA", // Light Pink
         "#d3d3d3", // Light Grey
     ],
+    highlightColorLabels: [],
+    favoriteHighlightColorLabels: [],
     selectedHighlightColorIndex: 0,
 
     coloredUnderlineThickness: DEFAULT_COLORED_UNDERLINE_THICKNESS,
     circleThickness: DEFAULT_CIRCLE_THICKNESS,
+    highlightOpacity: DEFAULT_HIGHLIGHT_OPACITY,
+    adaptColorsToDarkTheme: false,
+
+    expandEmptySelection: true,
+
+    outputModes: {
+        'bold': 'html',
+        'italic': 'html',
+        'strike': 'html',
+        'highlight': 'html',
+    },
+
+    hideSpanMarkup: true,
+
+    showFloatingToolbar: false,
+    toolbarButtons: [...TOOLBAR_BUTTONS],
+
+    presets: [
+        {
+            id: 'key-term',
+            name: "Key Term",
+            styles: [
+                { type: 'bold', value: null },
+                { type: 'color', value: '#c00000' },
+                { type: 'colored-underline', value: '#c00000' },
+            ],
+        },
+        {
+            id: 'question',
+            name: "Question",
+            styles: [
+                { type: 'italic', value: null },
+                { type: 'highlight', value: '#C4E0F7' },
+            ],
+        },
+    ],
 
 };
\ No newline at end of file
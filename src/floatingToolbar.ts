@@ -0,0 +1,144 @@
+import { Editor, MarkdownView, Menu, debounce, setIcon } from "obsidian";
+import TextStyler from "./main";
+import { DEFAULT_HIGHLIGHT_COLOR, DEFAULT_TEXT_COLOR, STYLE_TYPE_ICONS, STYLE_TYPE_NAMES } from "./constants";
+import { getEditorView } from "./markdownSyntax";
+import { StyleType, ToolbarButton } from "./types";
+import { formatColorTooltip } from "./utils";
+
+const TOOLBAR_GAP = 8; // Pixels between the toolbar and the selected text
+
+/**
+ * Toolbar floating above a non-empty selection with a button per style.
+ * It hides when the selection collapses, the editor scrolls or Escape is
+ * pressed, and shows again for the next selection.
+ */
+export class FloatingToolbar {
+    private plugin: TextStyler;
+    private toolbarEl: HTMLElement | null = null;
+    private dismissedSelection: string | null = null; // Selection the toolbar was closed for with Escape
+
+    // Waits for mouse selections to settle before showing the toolbar
+    requestUpdate = debounce(() => this.update(), 150, true);
+
+    constructor(plugin: TextStyler) {
+        this.plugin = plugin;
+
+        this.plugin.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => {
+            if (event.key !== 'Escape' || !this.toolbarEl) return;
+            this.dismissedSelection = this.getSelectionKey(this.getEditor());
+            this.hide();
+        });
+        // Scroll events do not bubble, so listen in the capture phase
+        this.plugin.registerDomEvent(document, 'scroll', (event: Event) => {
+            if (this.toolbarEl && !this.toolbarEl.contains(event.target as Node)) this.hide();
+        }, true);
+    }
+
+    update() {
+        const editor = this.getEditor();
+        if (!this.plugin.settings.showFloatingToolbar || !editor || !editor.somethingSelected()) {
+            this.dismissedSelection = null;
+            this.hide();
+            return;
+        }
+        if (this.getSelectionKey(editor) === this.dismissedSelection) return;
+        this.dismissedSelection = null;
+        this.show(editor);
+    }
+
+    hide() {
+        this.toolbarEl?.remove();
+        this.toolbarEl = null;
+    }
+
+    destroy() {
+        this.hide();
+    }
+
+    private show(editor: Editor) {
+        const view = getEditorView(editor);
+        if (!view) return;
+        const selection = view.state.selection.main;
+        const coords = view.coordsAtPos(selection.from);
+        if (!coords) return;
+
+        this.hide();
+        const toolbarEl = document.body.createDiv({ cls: 'styler-floating-toolbar' });
+        // Keep the editor focused and the selection intact while clicking buttons
+        toolbarEl.addEventListener('mousedown', (event) => event.preventDefault());
+        this.plugin.settings.toolbarButtons.forEach(button => this.renderButton(toolbarEl, editor, button));
+        this.toolbarEl = toolbarEl;
+
+        // Above the selection, or below it if there is no room
+        const { width, height } = toolbarEl.getBoundingClientRect();
+        const top = coords.top - height - TOOLBAR_GAP >= 0 ? coords.top - height - TOOLBAR_GAP : coords.bottom + TOOLBAR_GAP;
+        const left = Math.max(TOOLBAR_GAP, Math.min(coords.left, window.innerWidth - width - TOOLBAR_GAP));
+        toolbarEl.style.top = `${top}px`;
+        toolbarEl.style.left = `${left}px`;
+    }
+
+    private renderButton(toolbarEl: HTMLElement, editor: Editor, button: ToolbarButton) {
+        const buttonEl = toolbarEl.createEl('button', { cls: 'clickable-icon styler-toolbar-button' });
+
+        if (button === 'remove-all') {
+            setIcon(buttonEl, 'eraser');
+            buttonEl.setAttribute('aria-label', "Remove all styling");
+            buttonEl.addEventListener('click', () => this.plugin.styleManager.removeAllStyling(editor));
+            return;
+        }
+
+        setIcon(buttonEl, STYLE_TYPE_ICONS[button]);
+        const slotType = this.getSlotType(button);
+        if (!slotType) {
+            buttonEl.setAttribute('aria-label', STYLE_TYPE_NAMES[button]);
+            buttonEl.addEventListener('click', () => this.plugin.styleManager.toggleStyle(editor, button, null));
+            return;
+        }
+
+        // Color styles use the current slot color; the dropdown picks any slot
+        const color = this.getCurrentColor(slotType);
+        buttonEl.createDiv({ cls: 'styler-toolbar-swatch' }).style.backgroundColor = color;
+        buttonEl.setAttribute('aria-label', `${STYLE_TYPE_NAMES[button]}: ${formatColorTooltip(color, this.plugin.getColorLabel(slotType, color))}`);
+        buttonEl.addEventListener('click', () => this.plugin.styleManager.toggleStyle(editor, button, this.getCurrentColor(slotType)));
+
+        const dropdownEl = toolbarEl.createEl('button', { cls: 'clickable-icon styler-toolbar-dropdown' });
+        setIcon(dropdownEl, 'chevron-down');
+        dropdownEl.setAttribute('aria-label', `${STYLE_TYPE_NAMES[button]} slots`);
+        dropdownEl.addEventListener('click', (event) => this.showSlotMenu(event, editor, button, slotType));
+    }
+
+    private showSlotMenu(event: MouseEvent, editor: Editor, styleType: StyleType, slotType: 'text' | 'highlight') {
+        const colors = slotType === 'text' ? this.plugin.settings.textColors : this.plugin.settings.highlightColors;
+        const menu = new Menu();
+        colors.forEach((color, index) => {
+            menu.addItem((item) => item
+                .setTitle(`${this.plugin.getSlotName(slotType, index)} (${color})`)
+                .setIcon(STYLE_TYPE_ICONS[styleType])
+                .onClick(() => this.plugin.applySlotColor(editor, styleType, slotType, index)));
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    // Highlights use the highlight slots, every other colored style the text color slots
+    private getSlotType(styleType: StyleType): 'text' | 'highlight' | null {
+        if (styleType === 'highlight') return 'highlight';
+        if (styleType === 'color' || styleType === 'colored-underline' || styleType === 'circled') return 'text';
+        return null;
+    }
+
+    private getCurrentColor(slotType: 'text' | 'highlight'): string {
+        const { statusBar } = this.plugin;
+        return slotType === 'text'
+            ? statusBar?.getCurrentTextColor() ?? DEFAULT_TEXT_COLOR
+            : statusBar?.getCurrentHighlightColor() ?? DEFAULT_HIGHLIGHT_COLOR;
+    }
+
+    private getEditor(): Editor | null {
+        return this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor ?? null;
+    }
+
+    private getSelectionKey(editor: Editor | null): string | null {
+        if (!editor) return null;
+        return editor.listSelections().map(sel => `${editor.posToOffset(sel.anchor)}-${editor.posToOffset(sel.head)}`).join(',');
+    }
+}
@@ -0,0 +1,82 @@
+import { Editor, MarkdownView, Notice } from "obsidian";
+import TextStyler from "./main";
+import { SegmentStyle } from "./types";
+import { getEditorView } from "./markdownSyntax";
+
+/**
+ * Copies the styler styling under the cursor and pastes it onto selections.
+ * In sticky mode every new selection made in the editor with the mouse or
+ * Shift+arrows is painted, once the mouse button or Shift is released, until
+ * Escape is pressed.
+ */
+export class FormatPainter {
+    private plugin: TextStyler;
+    private copiedStyle: SegmentStyle | null = null;
+    private hasCopiedStyle = false;
+    private isSticky = false;
+
+    constructor(plugin: TextStyler) {
+        this.plugin = plugin;
+
+        this.plugin.registerDomEvent(document, 'mouseup', (event: MouseEvent) => this.paintIfSticky(event));
+        this.plugin.registerDomEvent(document, 'keyup', (event: KeyboardEvent) => {
+            if (event.key === 'Shift') this.paintIfSticky(event);
+        });
+        this.plugin.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Escape' && this.isSticky) this.stopSticky();
+        });
+    }
+
+    copyStyle(editor: Editor) {
+        this.copiedStyle = this.plugin.styleManager.getStyleAtCursor(editor);
+        this.hasCopiedStyle = true;
+        new Notice(this.copiedStyle
+            ? `Text Styler: Copied style (${this.describe(this.copiedStyle)}).`
+            : "Text Styler: Copied plain text style. Pasting will remove styling.");
+    }
+
+    pasteStyle(editor: Editor) {
+        if (!this.hasCopiedStyle) {
+            new Notice("Text Styler: Copy a style first.");
+            return;
+        }
+        this.plugin.styleManager.applyStyle(editor, this.copiedStyle);
+    }
+
+    toggleSticky(editor: Editor) {
+        if (this.isSticky) {
+            this.stopSticky();
+            return;
+        }
+        if (!this.hasCopiedStyle) {
+            this.copyStyle(editor);
+        }
+        this.isSticky = true;
+        document.body.addClass('styler-format-painter-active');
+        new Notice("Text Styler: Format painter on. Select text to paint, press Escape to stop.");
+    }
+
+    stopSticky() {
+        this.isSticky = false;
+        document.body.removeClass('styler-format-painter-active');
+        new Notice("Text Styler: Format painter off.");
+    }
+
+    destroy() {
+        document.body.removeClass('styler-format-painter-active');
+    }
+
+    // Only selections made in the active editor are painted, not clicks on the status bar, toolbars or modals
+    private paintIfSticky(event: MouseEvent | KeyboardEvent) {
+        if (!this.isSticky) return;
+        const editor = this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (!editor || !editor.somethingSelected()) return;
+        const contentEl = getEditorView(editor)?.contentDOM;
+        if (!contentEl || !(event.target instanceof Node) || !contentEl.contains(event.target)) return;
+        this.pasteStyle(editor);
+    }
+
+    private describe(style: SegmentStyle): string {
+        return [...style.classList, ...Object.entries(style.variables).map(([k, v]) => `${k}: ${v}`)].join(', ');
+    }
+}
@@ -0,0 +1,307 @@
+import { Notice, TFile, TFolder, normalizePath } from "obsidian";
+import TextStyler from "./main";
+import { isSameColor, normalizeColor } from "./color";
+import { STYLE_TYPE_NAMES, SUMMARY_NOTE_SUFFIX } from "./constants";
+import { StyleType, StyledRun } from "./types";
+
+// Styles collected into the summary, in the order their groups are listed
+const EXTRACTED_STYLE_TYPES: StyleType[] = ['highlight', 'color'];
+
+const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)$/;
+const OWN_LINE_BLOCK_ID_REGEX = /^\^([A-Za-z0-9-]+)$/;
+const HEADING_REGEX = /^#{1,6}[ \t]+(.*)$/;
+// Lines that start a new block, so a paragraph never continues into them
+const BLOCK_START_REGEX = /^[ \t]*(?:[-*+][ \t]|\d+[.)][ \t]|#{1,6}[ \t]|>|```|~~~|\||\$\$)/;
+const FENCE_REGEX = /^(`{3,}|~{3,}|\$\$)/;
+const TABLE_DELIMITER_REGEX = /^(?=.*\|)[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+type LineKind = 'text' | 'fence' | 'table' | 'quote';
+
+interface SourceLine {
+    start: number;
+    end: number; // Offset of the line break
+    kind: LineKind;
+}
+
+interface NewBlockId {
+    id: string;
+    insert: string; // Text added to the source note
+}
+
+interface Passage {
+    file: TFile;
+    styleType: StyleType;
+    color: string;
+    text: string;
+    subpath: string; // Link target inside the source note: a block reference or a heading
+}
+
+/**
+ * Collects highlighted and colored passages of a note or folder into a summary
+ * note, grouped by color. Every passage links back to its block in the source
+ * note; block ids are added to the source where missing. The summary lives at
+ * a fixed path, so running the extraction again replaces its content.
+ */
+export class HighlightExtractor {
+    private plugin: TextStyler;
+
+    constructor(plugin: TextStyler) {
+        this.plugin = plugin;
+    }
+
+    async extractFromNote(file: TFile) {
+        const summaryPath = this.getSummaryPath(file.parent, file.basename);
+        await this.extract([file], summaryPath, file.basename);
+    }
+
+    async extractFromFolder(folder: TFolder) {
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        const files = this.plugin.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path));
+        const title = folder.isRoot() ? this.plugin.app.vault.getName() : folder.name;
+        await this.extract(files, this.getSummaryPath(folder, title), title);
+    }
+
+    private async extract(files: TFile[], summaryPath: string, title: string) {
+        const passages: Passage[] = [];
+        for (const file of files) {
+            if (file.path === summaryPath) continue;
+            passages.push(...await this.collectPassages(file));
+        }
+
+        if (passages.length === 0) {
+            new Notice("Text Styler: No highlighted or colored text found.");
+            return;
+        }
+
+        const content = this.renderSummary(title, passages, summaryPath);
+        const { vault } = this.plugin.app;
+        const existing = vault.getAbstractFileByPath(summaryPath);
+        let summary: TFile;
+        if (existing instanceof TFile) {
+            await vault.modify(existing, content);
+            summary = existing;
+        } else {
+            summary = await vault.create(summaryPath, content);
+        }
+
+        new Notice(`Text Styler: Extracted ${passages.length} passages to ${summary.basename}.`);
+        await this.plugin.app.workspace.getLeaf(false).openFile(summary);
+    }
+
+    private getSummaryPath(folder: TFolder | null, title: string): string {
+        const folderPath = folder && !folder.isRoot() ? `${folder.path}/` : '';
+        return normalizePath(`${folderPath}${title}${SUMMARY_NOTE_SUFFIX}.md`);
+    }
+
+    // Finds the passages of one note, giving their blocks an id where they have none
+    private async collectPassages(file: TFile): Promise<Passage[]> {
+        const passages: Passage[] = [];
+        const source = await this.plugin.app.vault.cachedRead(file);
+        if (!this.findRuns(source).length) return passages;
+
+        await this.plugin.app.vault.process(file, (text) => {
+            const lines = this.parseLines(text);
+            const newIds = new Map<number, NewBlockId>(); // Insert offset -> id to add there
+            this.findRuns(text).forEach(run => {
+                const lineIndex = this.findLineIndex(lines, run.start);
+                const { kind } = lines[lineIndex];
+                // Styler tags in code and math blocks are not rendered, so they are no passages
+                if (kind === 'fence') return;
+
+                const passage = {
+                    file,
+                    styleType: run.style.type,
+                    color: run.style.value as string,
+                    text: run.text.replace(/\s+/g, ' ').trim(),
+                };
+
+                // Headings cannot carry block ids, they are linked by their text.
+                // Table cells cannot either, they are linked by the heading above the table.
+                const heading = kind === 'table' ? this.findHeadingAbove(text, lines, lineIndex) : this.getHeading(text, lines[lineIndex]);
+                if (heading !== null || kind === 'table') {
+                    passages.push({ ...passage, subpath: heading !== null ? `#${this.toHeadingLinkText(heading)}` : '' });
+                    return;
+                }
+
+                const blockId = kind === 'quote'
+                    ? this.getQuoteBlockId(text, lines, lineIndex, newIds)
+                    : this.getParagraphBlockId(text, run.end, newIds);
+                passages.push({ ...passage, subpath: `#^${blockId}` });
+            });
+
+            // Insert from the end so earlier offsets stay valid
+            return [...newIds.entries()]
+                .sort(([a], [b]) => b - a)
+                .reduce((result, [offset, { insert }]) => `${result.substring(0, offset)}${insert}${result.substring(offset)}`, text);
+        });
+
+        return passages;
+    }
+
+    private findRuns(source: string): StyledRun[] {
+        return this.plugin.styleManager.findStyledRuns(source)
+            .filter(run => EXTRACTED_STYLE_TYPES.includes(run.style.type) && !!run.style.value && run.text.trim() !== '');
+    }
+
+    // Paragraphs and list items take their id at the end of their last line
+    private getParagraphBlockId(text: string, offset: number, newIds: Map<number, NewBlockId>): string {
+        const blockEnd = this.findBlockEnd(text, offset);
+        const line = text.substring(text.lastIndexOf('\n', blockEnd - 1) + 1, blockEnd);
+        const existing = line.match(BLOCK_ID_REGEX)?.[1] ?? newIds.get(blockEnd)?.id;
+        if (existing) return existing;
+
+        const id = this.createBlockId(text, newIds);
+        newIds.set(blockEnd, { id, insert: ` ^${id}` });
+        return id;
+    }
+
+    // Quotes and callouts take their id on its own line after the block, separated by an empty line
+    private getQuoteBlockId(text: string, lines: SourceLine[], lineIndex: number, newIds: Map<number, NewBlockId>): string {
+        let lastIndex = lineIndex;
+        while (lastIndex + 1 < lines.length && lines[lastIndex + 1].kind === 'quote') lastIndex++;
+
+        const lineText = (index: number) => index < lines.length ? text.substring(lines[index].start, lines[index].end) : null;
+        const existing = (lineText(lastIndex + 1)?.trim() === '' ? lineText(lastIndex + 2)?.trim().match(OWN_LINE_BLOCK_ID_REGEX)?.[1] : undefined)
+            ?? newIds.get(lines[lastIndex].end)?.id;
+        if (existing) return existing;
+
+        const id = this.createBlockId(text, newIds);
+        const next = lineText(lastIndex + 1);
+        // Keep an empty line before the following block, or it would continue the id's line
+        const separator = next !== null && next.trim() !== '' ? '\n' : '';
+        newIds.set(lines[lastIndex].end, { id, insert: `\n\n^${id}${separator}` });
+        return id;
+    }
+
+    // End of the paragraph or list item containing `offset`
+    private findBlockEnd(text: string, offset: number): number {
+        let lineEnd = text.indexOf('\n', offset);
+        while (lineEnd !== -1) {
+            const nextEnd = text.indexOf('\n', lineEnd + 1);
+            const nextLine = text.substring(lineEnd + 1, nextEnd === -1 ? text.length : nextEnd);
+            if (nextLine.trim() === '' || BLOCK_START_REGEX.test(nextLine)) break;
+            lineEnd = nextEnd;
+        }
+        return lineEnd === -1 ? text.length : lineEnd;
+    }
+
+    // Splits the note into lines, marking code and math blocks, tables and quotes
+    private parseLines(text: string): SourceLine[] {
+        const lines: SourceLine[] = [];
+        let fence: string | null = null; // Marker closing the open code or math block
+        let offset = 0;
+
+        text.split('\n').forEach(content => {
+            const line: SourceLine = { start: offset, end: offset + content.length, kind: 'text' };
+            offset = line.end + 1;
+            lines.push(line);
+
+            const trimmed = content.trim();
+            if (fence) {
+                line.kind = 'fence';
+                if (fence === '$$' ? trimmed.endsWith('$$') : trimmed.startsWith(fence)) fence = null;
+                return;
+            }
+            const marker = trimmed.match(FENCE_REGEX)?.[1];
+            if (marker) {
+                line.kind = 'fence';
+                // Math on a single line, like $$x^2$$, closes right away
+                if (!(marker === '$$' && trimmed.length > 2 && trimmed.endsWith('$$'))) fence = marker;
+            } else if (trimmed.startsWith('>')) {
+                line.kind = 'quote';
+            }
+        });
+
+        // A table starts at the row above its delimiter row and runs until the first line without a pipe
+        lines.forEach((line, index) => {
+            if (index === 0 || line.kind !== 'text' || !TABLE_DELIMITER_REGEX.test(text.substring(line.start, line.end))) return;
+            for (let row = index - 1; row < lines.length; row++) {
+                const rowText = text.substring(lines[row].start, lines[row].end);
+                if (lines[row].kind !== 'text' || !rowText.includes('|')) break;
+                lines[row].kind = 'table';
+            }
+        });
+
+        return lines;
+    }
+
+    private findLineIndex(lines: SourceLine[], offset: number): number {
+        const index = lines.findIndex(line => offset <= line.end);
+        return index === -1 ? lines.length - 1 : index;
+    }
+
+    private getHeading(text: string, line: SourceLine): string | null {
+        return text.substring(line.start, line.end).match(HEADING_REGEX)?.[1] ?? null;
+    }
+
+    private findHeadingAbove(text: string, lines: SourceLine[], lineIndex: number): string | null {
+        for (let index = lineIndex - 1; index >= 0; index--) {
+            if (lines[index].kind !== 'text') continue;
+            const heading = this.getHeading(text, lines[index]);
+            if (heading !== null) return heading;
+        }
+        return null;
+    }
+
+    // Heading as written in a link: tags dropped, characters links cannot contain replaced
+    private toHeadingLinkText(heading: string): string {
+        return heading.replace(/<[^>]+>/g, '').replace(/[#|^[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+    private createBlockId(text: string, newIds: Map<number, NewBlockId>): string {
+        const taken = new Set([...newIds.values()].map(newId => newId.id));
+        let id: string;
+        do {
+            id = `styler-${Math.random().toString(36).substring(2, 8)}`;
+        } while (taken.has(id) || text.includes(`^${id}`));
+        return id;
+    }
+
+    private renderSummary(title: string, passages: Passage[], summaryPath: string): string {
+        const groups = new Map<string, Passage[]>();
+        passages.forEach(passage => {
+            const key = `${passage.styleType}|${normalizeColor(passage.color)}`;
+            groups.set(key, [...(groups.get(key) ?? []), passage]);
+        });
+
+        const sortedGroups = [...groups.values()].sort((a, b) =>
+            EXTRACTED_STYLE_TYPES.indexOf(a[0].styleType) - EXTRACTED_STYLE_TYPES.indexOf(b[0].styleType)
+            || this.getSlotOrder(a[0]) - this.getSlotOrder(b[0]));
+
+        const lines = [`# ${title}${SUMMARY_NOTE_SUFFIX}`, ''];
+        sortedGroups.forEach(group => {
+            lines.push(`## ${this.getGroupHeading(group[0])}`, '');
+            const description = this.getGroupDescription(group[0]);
+            if (description) lines.push(description, '');
+            group.forEach(passage => {
+                const linkText = this.plugin.app.metadataCache.fileToLinktext(passage.file, summaryPath);
+                lines.push(`- ${passage.text} [[${linkText}${passage.subpath}|${passage.file.basename}]]`);
+            });
+            lines.push('');
+        });
+        return lines.join('\n');
+    }
+
+    // Index of the color among the slots of its style, slotless colors last
+    private getSlotOrder(passage: Passage): number {
+        const index = this.getSlotColors(passage.styleType).findIndex(color => isSameColor(color, passage.color));
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    }
+
+    private getSlotColors(styleType: StyleType): string[] {
+        const { settings } = this.plugin;
+        return styleType === 'highlight' ? settings.highlightColors : settings.textColors;
+    }
+
+    // The color's label if it has one, e.g. "Definition", else the style name and color
+    private getGroupHeading(passage: Passage): string {
+        const label = this.plugin.getColorLabel(passage.styleType === 'highlight' ? 'highlight' : 'text', passage.color);
+        return label ? label.label : `${STYLE_TYPE_NAMES[passage.styleType]} ${passage.color}`;
+    }
+
+    private getGroupDescription(passage: Passage): string {
+        return this.plugin.getColorLabel(passage.styleType === 'highlight' ? 'highlight' : 'text', passage.color)?.description ?? '';
+    }
+}
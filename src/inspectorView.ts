@@ -0,0 +1,206 @@
+import { ExtraButtonComponent, ItemView, MarkdownView, Notice, WorkspaceLeaf, debounce } from "obsidian";
+import TextStyler from "./main";
+import { ColorModal } from "./colorModal";
+import { isSameColor, normalizeColor } from "./color";
+import { STYLE_TYPE_NAMES, VALUE_STYLE_TYPES, VIEW_TYPE_STYLE_INSPECTOR } from "./constants";
+import { PresetStyle, StyledRun } from "./types";
+
+const SNIPPET_LENGTH = 60;
+
+interface RunGroup {
+    style: PresetStyle;
+    runs: StyledRun[];
+}
+
+/**
+ * Sidebar view listing the styled text of the active note, grouped by style
+ * and color. Entries jump to their text; group actions select, remove or
+ * recolor every run of the group at once.
+ */
+export class StyleInspectorView extends ItemView {
+    private plugin: TextStyler;
+    private markdownView: MarkdownView | null = null; // Last focused note, the sidebar itself takes focus
+    private collapsedGroups = new Set<string>();
+
+    private requestRefresh = debounce(() => this.refresh(), 300, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: TextStyler) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_STYLE_INSPECTOR;
+    }
+
+    getDisplayText(): string {
+        return "Styled Text";
+    }
+
+    getIcon(): string {
+        return "list-tree";
+    }
+
+    async onOpen() {
+        this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (leaf && leaf.view instanceof MarkdownView) {
+                this.markdownView = leaf.view;
+                this.refresh();
+            }
+        }));
+        this.registerEvent(this.app.workspace.on('editor-change', (editor, info) => {
+            if (info instanceof MarkdownView && info === this.markdownView) this.requestRefresh();
+        }));
+        this.registerEvent(this.app.workspace.on('layout-change', () => {
+            // The tracked note may have been closed
+            if (this.markdownView && !this.app.workspace.getLeavesOfType('markdown').includes(this.markdownView.leaf)) {
+                this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+            }
+            this.refresh();
+        }));
+
+        this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    refresh() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('styler-inspector');
+
+        const view = this.markdownView;
+        if (!view || !view.file) {
+            contentEl.createDiv({ text: "Open a note to list its styled text.", cls: 'pane-empty' });
+            return;
+        }
+
+        const groups = this.groupRuns(this.plugin.styleManager.findStyledRuns(view.editor.getValue()));
+        contentEl.createDiv({ text: view.file.basename, cls: 'styler-inspector-title' });
+        if (groups.length === 0) {
+            contentEl.createDiv({ text: "No styled text in this note.", cls: 'pane-empty' });
+            return;
+        }
+
+        groups.forEach(group => this.renderGroup(contentEl, view, group));
+    }
+
+    private groupRuns(runs: StyledRun[]): RunGroup[] {
+        const groups = new Map<string, RunGroup>();
+        runs.forEach(run => {
+            const key = this.getGroupKey(run.style);
+            const group = groups.get(key);
+            if (group) group.runs.push(run);
+            else groups.set(key, { style: run.style, runs: [run] });
+        });
+
+        // Same order as the style type names, then by color
+        const typeOrder = Object.keys(STYLE_TYPE_NAMES);
+        return [...groups.values()].sort((a, b) =>
+            typeOrder.indexOf(a.style.type) - typeOrder.indexOf(b.style.type)
+            || (a.style.value ?? '').localeCompare(b.style.value ?? ''));
+    }
+
+    private getGroupKey(style: PresetStyle): string {
+        return `${style.type}|${style.value ? normalizeColor(style.value) : ''}`;
+    }
+
+    private renderGroup(containerEl: HTMLElement, view: MarkdownView, group: RunGroup) {
+        const key = this.getGroupKey(group.style);
+        const groupEl = containerEl.createDiv({ cls: 'styler-inspector-group' });
+        const headerEl = groupEl.createDiv({ cls: 'styler-inspector-group-header' });
+
+        if (group.style.value) {
+            const swatchEl = headerEl.createSpan({ cls: 'styler-inspector-swatch' });
+            swatchEl.style.backgroundColor = group.style.value;
+        }
+        const nameEl = headerEl.createSpan({ cls: 'styler-inspector-group-name' });
+        nameEl.setText(`${STYLE_TYPE_NAMES[group.style.type]}${group.style.value ? ` ${group.style.value}` : ''} (${group.runs.length})`);
+        nameEl.addEventListener('click', () => {
+            if (this.collapsedGroups.has(key)) this.collapsedGroups.delete(key);
+            else this.collapsedGroups.add(key);
+            this.refresh();
+        });
+
+        new ExtraButtonComponent(headerEl)
+            .setIcon("text-cursor-input")
+            .setTooltip("Select all")
+            .onClick(() => this.selectGroup(view, group.style));
+        if (VALUE_STYLE_TYPES.includes(group.style.type)) {
+            new ExtraButtonComponent(headerEl)
+                .setIcon("palette")
+                .setTooltip("Recolor")
+                .onClick(() => this.recolorGroup(view, group));
+        }
+        new ExtraButtonComponent(headerEl)
+            .setIcon("eraser")
+            .setTooltip("Remove style")
+            .onClick(() => {
+                if (this.selectGroup(view, group.style)) {
+                    this.plugin.styleManager.toggleStyle(view.editor, group.style.type, null);
+                }
+            });
+
+        if (this.collapsedGroups.has(key)) return;
+
+        const listEl = groupEl.createDiv({ cls: 'styler-inspector-runs' });
+        group.runs.forEach(run => {
+            const itemEl = listEl.createDiv({ cls: 'styler-inspector-run' });
+            const line = view.editor.offsetToPos(run.start).line + 1;
+            itemEl.createSpan({ text: `${line}`, cls: 'styler-inspector-line' });
+            itemEl.createSpan({ text: this.getSnippet(run.text) });
+            itemEl.addEventListener('click', () => this.jumpToRun(view, run));
+        });
+    }
+
+    private getSnippet(text: string): string {
+        const snippet = text.replace(/\s+/g, ' ').trim();
+        return snippet.length > SNIPPET_LENGTH ? `${snippet.substring(0, SNIPPET_LENGTH)}…` : snippet;
+    }
+
+    private jumpToRun(view: MarkdownView, run: StyledRun) {
+        const { editor } = view;
+        const from = editor.offsetToPos(run.start);
+        const to = editor.offsetToPos(run.end);
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+        editor.setSelection(from, to);
+        editor.scrollIntoView({ from, to }, true);
+    }
+
+    // Selects every run of a group as it is now, since the note may have changed since the list was built
+    private selectGroup(view: MarkdownView, style: PresetStyle): boolean {
+        const { editor } = view;
+        const key = this.getGroupKey(style);
+        const runs = this.plugin.styleManager.findStyledRuns(editor.getValue()).filter(run => this.getGroupKey(run.style) === key);
+        if (runs.length === 0) return false;
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+        editor.setSelections(runs.map(run => ({
+            anchor: editor.offsetToPos(run.start),
+            head: editor.offsetToPos(run.end),
+        })));
+        return true;
+    }
+
+    private recolorGroup(view: MarkdownView, group: RunGroup) {
+        new ColorModal({
+            app: this.app,
+            plugin: this.plugin,
+            initialColor: group.style.value ?? '#000000',
+            colorType: group.style.type === 'highlight' ? 'highlight' : 'text',
+            onSubmit: (newColor) => {
+                if (group.style.value && isSameColor(newColor, group.style.value)) return;
+                // Rewrites the runs directly, a toggle would take the Markdown path for highlights
+                const count = this.plugin.styleManager.replaceStyleInEditor(view.editor, group.style.type, group.style.value, { kind: 'recolor', color: newColor });
+                if (count === null) {
+                    new Notice("Text Styler: Cannot recolor a note with unbalanced styler tags.");
+                    return;
+                }
+                this.selectGroup(view, { type: group.style.type, value: newColor });
+            },
+        }).open();
+    }
+}
@@ -2,25 +2,51 @@ import { App, Editor, MarkdownView, Menu, Notice, Plugin, PluginManifest, ExtraB
 import { StylerSettingsTab } from './settingsTab';
 import { StylerStatusBar } from './statusBar';
 import { StyleManager } from './styleManager';
-import { DEFAULT_SETTINGS, DEFAULT_COLORED_UNDERLINE_THICKNESS, DEFAULT_CIRCLE_THICKNESS } from './constants'; // Import new defaults
-import { PluginSettings, StyleType } from './types';
+import { DEFAULT_SETTINGS, DEFAULT_COLORED_UNDERLINE_THICKNESS, DEFAULT_CIRCLE_THICKNESS, TOOLBAR_BUTTONS, VIEW_TYPE_STYLE_INSPECTOR } from './constants'; // Import new defaults
+import { ColorLabel, PluginSettings, StyleType } from './types';
 import { ColorModal } from './colorModal';
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { createStylerSpanDecorations } from './spanDecorations';
+import { FormatPainter } from './formatPainter';
+import { StyleReplaceModal } from './styleReplaceModal';
+import { StyleInspectorView } from './inspectorView';
+import { HighlightExtractor } from './highlightExtractor';
+import { StylerQueryRenderer } from './queryBlock';
+import { FloatingToolbar } from './floatingToolbar';
+import { StylePickerModal } from './stylePickerModal';
+import { isSameColor } from './color';
+import { ThemeColorAdapter } from './themeColors';
+import { getEditorView } from './markdownSyntax';
 
 export default class TextStyler extends Plugin {
     settings: PluginSettings;
     statusBar: StylerStatusBar | null = null;
     styleManager: StyleManager;
+    formatPainter: FormatPainter | null = null;
+    floatingToolbar: FloatingToolbar | null = null;
+    highlightExtractor: HighlightExtractor;
+    themeColors: ThemeColorAdapter;
     statusBarItem: HTMLElement | null = null;
+    private editorExtensions: Extension[] = []; // Mutated in place, see updateEditorExtensions
+    private spanDecorations: Extension;
+    private presetCommandIds: string[] = [];
+    private slotCommandIds: string[] = [];
 
     constructor(app: App, manifest: PluginManifest) {
         super(app, manifest);
         this.styleManager = new StyleManager(this); // Pass plugin instance
+        this.highlightExtractor = new HighlightExtractor(this);
+        this.themeColors = new ThemeColorAdapter(this);
+        this.spanDecorations = createStylerSpanDecorations(this.themeColors);
     }
 
     async onload() {
         console.log('Loading Text Styler Plugin');
 
         await this.loadSettings();
+        this.applyHighlightOpacity();
+        this.app.workspace.onLayoutReady(() => this.themeColors.refresh()); // The theme is applied by then
 
         // --- Status Bar ---
         this.statusBarItem = this.addStatusBarItem();
@@ -31,6 +57,24 @@ export default class TextStyler extends Plugin {
         }
 
 
+        // --- Floating Toolbar ---
+        this.floatingToolbar = new FloatingToolbar(this);
+
+        // --- Editor Extension ---
+        this.updateEditorExtensions();
+        this.registerEditorExtension(this.editorExtensions);
+
+        // --- Styled Text Inspector ---
+        this.registerView(VIEW_TYPE_STYLE_INSPECTOR, (leaf) => new StyleInspectorView(leaf, this));
+
+        // --- Dark Theme Colors in Reading View ---
+        this.registerMarkdownPostProcessor((el) => this.themeColors.adaptElement(el));
+
+        // --- Styler Query Code Blocks ---
+        this.registerMarkdownCodeBlockProcessor('styler-query', (source, el, ctx) => {
+            ctx.addChild(new StylerQueryRenderer(this, el, source));
+        });
+
         // --- Settings Tab ---
         this.addSettingTab(new StylerSettingsTab(this.app, this));
 
@@ -114,6 +158,80 @@ export default class TextStyler extends Plugin {
              }
         });
 
+        // Style Picker Command
+        this.addCommand({
+            id: 'open-style-picker',
+            name: 'Open Style Picker',
+            editorCallback: (editor: Editor) => new StylePickerModal(this.app, this, editor).open(),
+        });
+
+        // Find and Replace Styles Command
+        this.addCommand({
+            id: 'find-replace-styles',
+            name: 'Find and Replace Styles',
+            callback: () => new StyleReplaceModal(this.app, this).open(),
+        });
+
+        // Styled Text Inspector Command
+        this.addCommand({
+            id: 'open-style-inspector',
+            name: 'Open Styled Text Inspector',
+            callback: () => this.activateStyleInspector(),
+        });
+
+        // Color Legend Command
+        this.addCommand({
+            id: 'insert-color-legend',
+            name: 'Insert Color Legend',
+            editorCallback: (editor: Editor) => this.insertColorLegend(editor),
+        });
+
+        // Highlight Extraction Commands
+        this.addCommand({
+            id: 'extract-highlights-note',
+            name: 'Extract Highlights from Current Note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (!checking) this.highlightExtractor.extractFromNote(file);
+                return true;
+            },
+        });
+        this.addCommand({
+            id: 'extract-highlights-folder',
+            name: 'Extract Highlights from Current Folder',
+            checkCallback: (checking: boolean) => {
+                const folder = this.app.workspace.getActiveFile()?.parent;
+                if (!folder) return false;
+                if (!checking) this.highlightExtractor.extractFromFolder(folder);
+                return true;
+            },
+        });
+
+        // Format Painter Commands
+        this.formatPainter = new FormatPainter(this);
+        this.addCommand({
+            id: 'copy-style',
+            name: 'Copy Style at Cursor',
+            editorCallback: (editor: Editor) => this.formatPainter?.copyStyle(editor),
+        });
+        this.addCommand({
+            id: 'paste-style',
+            name: 'Paste Style',
+            editorCallback: (editor: Editor) => this.formatPainter?.pasteStyle(editor),
+        });
+        this.addCommand({
+            id: 'toggle-sticky-format-painter',
+            name: 'Toggle Sticky Format Painter',
+            editorCallback: (editor: Editor) => this.formatPainter?.toggleSticky(editor),
+        });
+
+        // Preset Commands (one per preset, kept in sync with the settings)
+        this.syncPresetCommands();
+
+        // Slot Commands (one per slot and style, kept in sync with the slot counts and labels)
+        this.syncSlotCommands();
+
         // Change Color Slot Commands
          this.addCommand({
             id: 'change-text-color-slot',
@@ -156,8 +274,16 @@ export default class TextStyler extends Plugin {
             this.app.workspace.on("editor-menu", this.handleEditorMenu)
         );
 
-        // --- Update status bar on theme change ---
+        // --- Update status bar styles when switching notes ---
+        this.registerEvent(this.app.workspace.on("active-leaf-change", () => {
+            this.statusBar?.requestActiveStylesUpdate();
+            this.floatingToolbar?.requestUpdate();
+        }));
+
+        // --- Re-evaluate colors on theme change ---
         this.registerEvent(this.app.workspace.on("css-change", () => {
+             this.themeColors.refresh();
+             this.statusBar?.refreshCellColors();
              this.statusBar?.updateSelectedVisuals();
         }));
     }
@@ -165,11 +291,179 @@ export default class TextStyler extends Plugin {
     onunload() {
         console.log('Unloading Text Styler Plugin');
         this.statusBar?.destroy();
+        this.formatPainter?.destroy();
+        this.floatingToolbar?.destroy();
+        document.body.style.removeProperty('--styler-highlight-opacity');
         if (this.statusBarItem) {
             this.statusBarItem.remove();
         }
     }
 
+    // Rebuilds the registered editor extensions from the settings and reconfigures open editors
+    updateEditorExtensions() {
+        this.editorExtensions.length = 0;
+        this.editorExtensions.push(EditorView.updateListener.of((update) => {
+            // Changes in other editors, like notes rewritten by find and replace, leave the active cursor as it is
+            const activeEditor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+            if (!activeEditor || getEditorView(activeEditor) !== update.view) return;
+            if (update.selectionSet || update.docChanged) {
+                this.statusBar?.requestActiveStylesUpdate();
+                this.floatingToolbar?.requestUpdate();
+            }
+        }));
+        if (this.settings.hideSpanMarkup) {
+            this.editorExtensions.push(this.spanDecorations);
+        }
+        this.app.workspace.updateOptions();
+    }
+
+    // Reveals the inspector, opening it in the right sidebar if it is not open yet
+    async activateStyleInspector() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(VIEW_TYPE_STYLE_INSPECTOR)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            await rightLeaf.setViewState({ type: VIEW_TYPE_STYLE_INSPECTOR, active: true });
+            leaf = rightLeaf;
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    // Label of a color slot, or null if it has none
+    getSlotLabel(type: 'text' | 'highlight', index: number): ColorLabel | null {
+        const labels = type === 'text' ? this.settings.textColorLabels : this.settings.highlightColorLabels;
+        const label = labels[index];
+        return label && label.label ? label : null;
+    }
+
+    // Name of a color slot for menus and commands: its label, or its number
+    getSlotName(type: 'text' | 'highlight', index: number): string {
+        return this.getSlotLabel(type, index)?.label || `Slot ${index + 1}`;
+    }
+
+    // Label of a color from the slots of its type, falling back to the favorites
+    getColorLabel(type: 'text' | 'highlight', color: string): ColorLabel | null {
+        const { settings } = this;
+        const sources: [string[], ColorLabel[]][] = type === 'text'
+            ? [[settings.textColors, settings.textColorLabels], [settings.favoriteTextColors, settings.favoriteTextColorLabels]]
+            : [[settings.highlightColors, settings.highlightColorLabels], [settings.favoriteHighlightColors, settings.favoriteHighlightColorLabels]];
+
+        for (const [colors, labels] of sources) {
+            const index = colors.findIndex((c, i) => isSameColor(c, color) && !!labels[i]?.label);
+            if (index !== -1) return labels[index];
+        }
+        return null;
+    }
+
+    // Inserts a list of the labeled slots, each label styled in its slot's color
+    private insertColorLegend(editor: Editor) {
+        const lines: string[] = [];
+        (['text', 'highlight'] as const).forEach(type => {
+            const colors = type === 'text' ? this.settings.textColors : this.settings.highlightColors;
+            colors.forEach((color, index) => {
+                const label = this.getSlotLabel(type, index);
+                if (!label) return;
+                const styled = this.styleManager.createStyledText(label.label, type === 'text' ? 'color' : 'highlight', color);
+                lines.push(label.description ? `- ${styled}: ${label.description}` : `- ${styled}`);
+            });
+        });
+
+        if (lines.length === 0) {
+            new Notice("Text Styler: Label a color slot in the settings to insert a legend.");
+            return;
+        }
+        editor.replaceSelection(lines.join('\n') + '\n');
+    }
+
+    // Registers one command per preset, replacing the commands of the previous preset list
+    syncPresetCommands() {
+        this.presetCommandIds.forEach(id => this.removeCommand(id));
+        this.presetCommandIds = this.settings.presets.map(preset => {
+            const command = this.addCommand({
+                id: `apply-preset-${preset.id}`,
+                name: `Apply Preset: ${preset.name}`,
+                editorCallback: (editor: Editor) => this.applyPreset(editor, preset.id),
+            });
+            return command.id;
+        });
+    }
+
+    // Registers one command per color slot for each style that takes a color, replacing the previous ones
+    syncSlotCommands() {
+        const slotStyles: { styleType: StyleType, slotType: 'text' | 'highlight', id: string, name: string }[] = [
+            { styleType: 'color', slotType: 'text', id: 'apply-text-color-slot', name: 'Apply Text Color Slot' },
+            { styleType: 'highlight', slotType: 'highlight', id: 'apply-highlight-slot', name: 'Apply Highlight Slot' },
+            { styleType: 'colored-underline', slotType: 'text', id: 'apply-colored-underline-slot', name: 'Apply Colored Underline Slot' },
+            { styleType: 'circled', slotType: 'text', id: 'apply-circled-slot', name: 'Apply Circled Slot' },
+        ];
+
+        this.slotCommandIds.forEach(id => this.removeCommand(id));
+        this.slotCommandIds = [];
+        slotStyles.forEach(({ styleType, slotType, id, name }) => {
+            const slotCount = slotType === 'text' ? this.settings.textColorSlots : this.settings.highlightColorSlots;
+            for (let index = 0; index < slotCount; index++) {
+                const label = this.getSlotLabel(slotType, index);
+                const command = this.addCommand({
+                    id: `${id}-${index + 1}`,
+                    name: `${name} ${index + 1}${label ? `: ${label.label}` : ''}`,
+                    editorCallback: (editor: Editor) => this.applySlotColor(editor, styleType, slotType, index),
+                });
+                this.slotCommandIds.push(command.id);
+            }
+        });
+    }
+
+    // Moves a slot (with its label) to another position, keeping the same slot selected
+    async moveSlot(type: 'text' | 'highlight', fromIndex: number, toIndex: number) {
+        if (fromIndex === toIndex) return;
+        const { settings } = this;
+        const colors = type === 'text' ? settings.textColors : settings.highlightColors;
+        const labels = type === 'text' ? settings.textColorLabels : settings.highlightColorLabels;
+        colors.splice(toIndex, 0, ...colors.splice(fromIndex, 1));
+        labels.splice(toIndex, 0, ...labels.splice(fromIndex, 1));
+
+        const selectedIndex = type === 'text' ? settings.selectedTextColorIndex : settings.selectedHighlightColorIndex;
+        let newSelectedIndex = selectedIndex;
+        if (selectedIndex === fromIndex) {
+            newSelectedIndex = toIndex;
+        } else if (fromIndex < selectedIndex && selectedIndex <= toIndex) {
+            newSelectedIndex--;
+        } else if (toIndex <= selectedIndex && selectedIndex < fromIndex) {
+            newSelectedIndex++;
+        }
+        if (type === 'text') settings.selectedTextColorIndex = newSelectedIndex;
+        else settings.selectedHighlightColorIndex = newSelectedIndex;
+
+        await this.saveSettings();
+        this.statusBar?.rebuild();
+        this.syncSlotCommands();
+    }
+
+    // Looks the color up at call time so slot color changes apply immediately
+    applySlotColor(editor: Editor, styleType: StyleType, slotType: 'text' | 'highlight', index: number) {
+        const colors = slotType === 'text' ? this.settings.textColors : this.settings.highlightColors;
+        const color = colors[index];
+        if (color) {
+            this.styleManager.toggleStyle(editor, styleType, color);
+        } else {
+            new Notice(`Text Styler: ${slotType === 'text' ? "Text color" : "Highlight"} slot ${index + 1} does not exist.`);
+        }
+    }
+
+    // Looks the preset up at call time so edits in the settings apply immediately
+    applyPreset(editor: Editor, presetId: string) {
+        const preset = this.settings.presets.find(p => p.id === presetId);
+        if (preset) {
+            this.styleManager.togglePreset(editor, preset);
+        }
+    }
+
+    // Obsidian has no public API to unregister a command; `app.commands` is untyped
+    private removeCommand(fullId: string) {
+        (this.app as unknown as { commands: { removeCommand(id: string): void } }).commands.removeCommand(fullId);
+    }
+
     // Helper to add simple toggle commands (no value needed)
     private addSimpleToggleCommand(id: string, name: string, styleType: StyleType) {
          this.addCommand({
@@ -252,6 +546,17 @@ export default class TextStyler extends Plugin {
               });
         });
 
+        if (this.settings.presets.length > 0) {
+            menu.addSeparator();
+            this.settings.presets.forEach(preset => {
+                menu.addItem((item: MenuItem) => {
+                    item.setTitle(`Styler: ${preset.name}`)
+                        .setIcon("layers")
+                        .onClick(() => this.applyPreset(editor, preset.id));
+                });
+            });
+        }
+
         menu.addSeparator();
 
          menu.addItem((item: MenuItem) => {
@@ -283,6 +588,7 @@ export default class TextStyler extends Plugin {
             plugin: this,
             initialColor: currentColor,
             colorType: type,
+            slotIndex: safeIndex,
             onSubmit: (newColorHex) => {
                  // Ensure index is still valid before assignment (paranoid check)
                  if (safeIndex < colors.length) {
@@ -339,6 +645,11 @@ export default class TextStyler extends Plugin {
 
     }
 
+    // Highlights read the global opacity from the body, so existing notes follow it without changes
+    applyHighlightOpacity() {
+        document.body.style.setProperty('--styler-highlight-opacity', `${this.settings.highlightOpacity}%`);
+    }
+
     ensureColorArraysMatchSlots() {
         const { textColorSlots, textColors, highlightColorSlots, highlightColors } = this.settings;
         const defaultTextColor = DEFAULT_SETTINGS.textColors[0] || '#000000'; // Use first default or fallback
@@ -373,9 +684,34 @@ export default class TextStyler extends Plugin {
           if (this.settings.circleThickness === undefined || this.settings.circleThickness === null || typeof this.settings.circleThickness !== 'number') {
              this.settings.circleThickness = DEFAULT_SETTINGS.circleThickness;
          }
+         if (typeof this.settings.highlightOpacity !== 'number' || this.settings.highlightOpacity < 0 || this.settings.highlightOpacity > 100) {
+             this.settings.highlightOpacity = DEFAULT_SETTINGS.highlightOpacity;
+         }
+
+         // Keep one label per slot and favorite color
+         this.settings.textColorLabels = this.resizeLabels(this.settings.textColorLabels, this.settings.textColors.length);
+         this.settings.highlightColorLabels = this.resizeLabels(this.settings.highlightColorLabels, this.settings.highlightColors.length);
+         this.settings.favoriteTextColorLabels = this.resizeLabels(this.settings.favoriteTextColorLabels, this.settings.favoriteTextColors.length);
+         this.settings.favoriteHighlightColorLabels = this.resizeLabels(this.settings.favoriteHighlightColorLabels, this.settings.favoriteHighlightColors.length);
+
+         // Fill in output modes added after the settings were first saved
+         this.settings.outputModes = Object.assign({}, DEFAULT_SETTINGS.outputModes, this.settings.outputModes);
+
+         // Keep known toolbar buttons only, in display order
+         const toolbarButtons = Array.isArray(this.settings.toolbarButtons) ? this.settings.toolbarButtons : DEFAULT_SETTINGS.toolbarButtons;
+         this.settings.toolbarButtons = TOOLBAR_BUTTONS.filter(button => toolbarButtons.includes(button));
+
+         // Copy presets so editing them never mutates the defaults
+         const presets = Array.isArray(this.settings.presets) ? this.settings.presets : DEFAULT_SETTINGS.presets;
+         this.settings.presets = presets.map(preset => ({ ...preset, styles: preset.styles.map(style => ({ ...style })) }));
 
          // Ensure selected indices are valid
          this.settings.selectedTextColorIndex = Math.max(0, Math.min(this.settings.selectedTextColorIndex ?? 0, this.settings.textColorSlots - 1));
          this.settings.selectedHighlightColorIndex = Math.max(0, Math.min(this.settings.selectedHighlightColorIndex ?? 0, this.settings.highlightColorSlots - 1));
     }
+
+    // Copies the labels, padding with empty ones or truncating to `length`
+    private resizeLabels(labels: ColorLabel[] | undefined, length: number): ColorLabel[] {
+        return Array.from({ length }, (_, i) => ({ label: labels?.[i]?.label ?? '', description: labels?.[i]?.description ?? '' }));
+    }
 }
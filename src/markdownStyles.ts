@@ -0,0 +1,180 @@
+import { MARKDOWN_MARKERS } from "./constants";
+import { MarkdownStyleType, MarkdownWrap, OffsetRange, StyleType } from "./types";
+
+// Characters that can form the delimiter runs of each style
+const MARKER_CHARS: Record<MarkdownStyleType, string[]> = {
+    'bold': ['*', '_'],
+    'italic': ['*', '_'],
+    'strike': ['~'],
+    'highlight': ['='],
+};
+
+// Paired markers of one style inside a piece of text
+const INNER_MARKER_REGEX: Record<MarkdownStyleType, RegExp> = {
+    'bold': /(\*\*|__)(?=\S)([\s\S]*?\S)\1/g,
+    'italic': /(?<![*_])([*_])(?![*_\s])([\s\S]*?[^*_\s])\1(?![*_])/g,
+    'strike': /(~~)([\s\S]*?)\1/g,
+    'highlight': /(==)([\s\S]*?)\1/g,
+};
+
+export function isMarkdownStyleType(styleType: StyleType): styleType is MarkdownStyleType {
+    return styleType in MARKDOWN_MARKERS;
+}
+
+function countRun(text: string, char: string, fromEnd: boolean): number {
+    let count = 0;
+    while (count < text.length && text[fromEnd ? text.length - 1 - count : count] === char) count++;
+    return count;
+}
+
+/**
+ * Delimiter runs of `char` in `text` that pair with nothing. An opening run must be
+ * followed by text and a closing run preceded by it, and a closer pairs with the
+ * nearest open run of the same length, as in `*a **b** c*`. Underscores inside a
+ * word, as in `snake_case`, are no delimiters.
+ */
+function findUnmatchedRuns(text: string, char: string): OffsetRange[] {
+    const open: OffsetRange[] = [];
+    const unmatched: OffsetRange[] = [];
+
+    for (let start = text.indexOf(char); start !== -1; ) {
+        const end = start + countRun(text.substring(start), char, false);
+        const previous = text.charAt(start - 1);
+        const next = text.charAt(end);
+        const canOpen = next !== '' && !/\s/.test(next);
+        const canClose = previous !== '' && !/\s/.test(previous);
+
+        if (!(char === '_' && /\w/.test(previous) && /\w/.test(next))) {
+            const opener = canClose ? open.map(run => run.end - run.start).lastIndexOf(end - start) : -1;
+            if (opener !== -1) {
+                unmatched.push(...open.splice(opener).slice(1)); // Runs opened inside the pair stay unmatched
+            } else if (canOpen) {
+                open.push({ start, end });
+            } else {
+                unmatched.push({ start, end });
+            }
+        }
+        start = text.indexOf(char, end);
+    }
+
+    return [...unmatched, ...open].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the delimiter runs around a selection, looking both just outside it and at its
+ * edges, so `**word**` is recognized whether or not the markers were selected.
+ * A run is only used when it has a partner on the other side, and only when the text
+ * between them has no unmatched delimiter: in `**a** and **b**` the outer runs belong
+ * to two different pairs.
+ */
+export function findMarkdownWrap(docText: string, fromOffset: number, toOffset: number, styleType: MarkdownStyleType): MarkdownWrap {
+    const selected = docText.substring(fromOffset, toOffset);
+    let best: MarkdownWrap = { fromOffset, toOffset, char: null, lead: '', content: selected, trail: '' };
+
+    MARKER_CHARS[styleType].forEach(char => {
+        let regionFrom = fromOffset;
+        let regionTo = toOffset;
+
+        const outsideLead = countRun(docText.substring(0, fromOffset), char, true);
+        const outsideTrail = countRun(docText.substring(toOffset), char, false);
+        if (outsideLead > 0 && outsideTrail > 0) {
+            regionFrom -= outsideLead;
+            regionTo += outsideTrail;
+        }
+
+        const region = docText.substring(regionFrom, regionTo);
+        const leadRun = countRun(region, char, false);
+        const trailRun = countRun(region, char, true);
+        if (leadRun === 0 || trailRun === 0 || leadRun + trailRun >= region.length) return;
+
+        // Only the paired part of uneven runs counts as markers
+        const size = Math.min(leadRun, trailRun);
+        if (size <= best.lead.length) return;
+        if (findUnmatchedRuns(region.substring(leadRun, region.length - trailRun), char).length > 0) return;
+        best = {
+            fromOffset: regionFrom,
+            toOffset: regionTo,
+            char,
+            lead: region.substring(leadRun - size, leadRun),
+            content: region.substring(0, leadRun - size) + region.substring(leadRun, region.length - trailRun) + region.substring(region.length - trailRun + size),
+            trail: region.substring(region.length - trailRun, region.length - trailRun + size),
+        };
+    });
+
+    return best;
+}
+
+/**
+ * Moves selection edges that fall on delimiters of the style: an edge inside a delimiter
+ * run is extended over the whole run, and runs at the edges that pair with nothing inside
+ * the selection are clipped off, so new markers never run into existing ones (`** cd` in `**ab** cd`).
+ */
+export function snapToDelimiters(docText: string, fromOffset: number, toOffset: number, styleType: MarkdownStyleType): OffsetRange {
+    const chars = MARKER_CHARS[styleType];
+    const isMarker = (offset: number) => chars.includes(docText.charAt(offset));
+
+    let start = fromOffset;
+    let end = toOffset;
+    while (start > 0 && start < end && isMarker(start) && docText.charAt(start - 1) === docText.charAt(start)) start--;
+    while (end < docText.length && end > start && isMarker(end - 1) && docText.charAt(end) === docText.charAt(end - 1)) end++;
+    if (findMarkdownWrap(docText, start, end, styleType).char !== null) return { start, end };
+
+    // Runs with a partner inside the selection, like both markers of `*a*`, stay selected
+    const selected = docText.substring(start, end);
+    const unmatched = chars.reduce<OffsetRange[]>((runs, char) => runs.concat(findUnmatchedRuns(selected, char)), []);
+    let clippedStart = 0;
+    let clippedEnd = selected.length;
+    let edgeRun = unmatched.find(run => run.start === clippedStart);
+    while (edgeRun && edgeRun.end <= clippedEnd) {
+        clippedStart = edgeRun.end;
+        edgeRun = unmatched.find(run => run.start === clippedStart);
+    }
+    edgeRun = unmatched.find(run => run.end === clippedEnd);
+    while (edgeRun && edgeRun.start >= clippedStart) {
+        clippedEnd = edgeRun.start;
+        edgeRun = unmatched.find(run => run.end === clippedEnd);
+    }
+    return selected.substring(clippedStart, clippedEnd).trim() ? { start: start + clippedStart, end: start + clippedEnd } : { start, end };
+}
+
+export function isMarkdownStyleActive(wrap: MarkdownWrap, styleType: MarkdownStyleType): boolean {
+    const size = wrap.lead.length;
+    if (styleType === 'italic') return size % 2 === 1; // `*x*` or `***x***`
+    return size >= 2;
+}
+
+export function stripMarkdownStyle(text: string, styleType: MarkdownStyleType): string {
+    return text.replace(INNER_MARKER_REGEX[styleType], '$2');
+}
+
+// Rebuilds the wrap with the style added; returns the text and where its content lands
+export function applyMarkdownStyle(wrap: MarkdownWrap, styleType: MarkdownStyleType): { text: string, contentStart: number, contentEnd: number } {
+    const defaultMarker = MARKDOWN_MARKERS[styleType];
+    const marker = wrap.char && MARKER_CHARS[styleType].includes(wrap.char) ? wrap.char.repeat(defaultMarker.length) : defaultMarker;
+    const content = stripMarkdownStyle(wrap.content, styleType);
+
+    // Delimiters must touch the text, so surrounding whitespace moves outside the markers
+    const core = content.trim();
+    const leadingSpace = core ? content.substring(0, content.indexOf(core)) : content;
+    const trailingSpace = core ? content.substring(content.indexOf(core) + core.length) : '';
+
+    const opening = `${leadingSpace}${wrap.lead}${marker}`;
+    return {
+        text: `${opening}${core}${marker}${wrap.trail}${trailingSpace}`,
+        contentStart: opening.length,
+        contentEnd: opening.length + core.length,
+    };
+}
+
+// Rebuilds the wrap with the style removed; returns the text and where its content lands
+export function removeMarkdownStyle(wrap: MarkdownWrap, styleType: MarkdownStyleType): { text: string, contentStart: number, contentEnd: number } {
+    const width = MARKDOWN_MARKERS[styleType].length;
+    const lead = wrap.lead.substring(width);
+    const trail = wrap.trail.substring(0, wrap.trail.length - width);
+    const content = stripMarkdownStyle(wrap.content, styleType);
+    return {
+        text: `${lead}${content}${trail}`,
+        contentStart: lead.length,
+        contentEnd: lead.length + content.length,
+    };
+}
@@ -0,0 +1,151 @@
+import { syntaxTree } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { Editor } from "obsidian";
+import { OffsetRange } from "./types";
+
+// Token classes of Obsidian's Markdown syntax tree whose text must never be wrapped in a span
+const SKIPPED_TOKEN_CLASSES = [
+    'inline-code', 'formatting-code', 'hmd-codeblock', 'formatting-code-block',
+    'math', 'formatting-math',
+    'url', 'formatting-link', 'formatting-link-string',
+    'formatting-list', 'formatting-task', 'formatting-header', 'formatting-quote',
+    'hmd-table-sep', 'hmd-frontmatter', 'comment',
+];
+
+// Wikilinks and embeds only render when left intact, so they are styled as a whole
+const ATOMIC_CONSTRUCT_REGEX = /!?\[\[[^\]\n]*\]\]/g;
+
+// Opening or closing line of a fenced code block
+const CODE_FENCE_REGEX = /^[ \t]{0,3}(`{3,}|~{3,})/;
+const INLINE_CODE_REGEX = /(?<!`)(`+)(?!`)[^\n]*?(?<!`)\1(?!`)/g;
+
+// Block syntax at the start of a line: indentation, blockquote/callout markers, headings, list bullets and task boxes
+const BLOCK_PREFIX_REGEX = /^[ \t]*(?:>[ \t]?)*(?:\[![^\]\n]*\][+-]?[ \t]*)?(?:#{1,6}[ \t]+|(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?)?/;
+
+// Obsidian exposes the CodeMirror 6 view on the editor instance, but does not type it
+export function getEditorView(editor: Editor): EditorView | null {
+    const view = (editor as unknown as { cm?: EditorView }).cm;
+    return view && view.state ? view : null;
+}
+
+// True if `offset` lies in inline code or a code block, where HTML is shown literally
+export function isInCode(state: EditorState, offset: number): boolean {
+    const tokenClasses = syntaxTree(state).resolveInner(offset, 1).type.name.split('_');
+    return tokenClasses.some(cls => cls === 'inline-code' || cls === 'hmd-codeblock');
+}
+
+/**
+ * Fenced code blocks and inline code in `docText`, found from the text alone for notes
+ * that are not open in an editor. Inline code closes on a backtick run of its own length.
+ */
+export function findCodeRanges(docText: string): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    let fence: string | null = null; // Marker of the open code block
+    let fenceStart = 0;
+    let lineStart = 0;
+
+    docText.split('\n').forEach(line => {
+        const lineEnd = lineStart + line.length;
+        const marker = line.match(CODE_FENCE_REGEX)?.[1];
+        if (fence) {
+            if (marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+                ranges.push({ start: fenceStart, end: lineEnd });
+                fence = null;
+            }
+        } else if (marker) {
+            fence = marker;
+            fenceStart = lineStart;
+        } else {
+            const regex = new RegExp(INLINE_CODE_REGEX.source, INLINE_CODE_REGEX.flags);
+            let match: RegExpExecArray | null;
+            while ((match = regex.exec(line)) !== null) {
+                ranges.push({ start: lineStart + match.index, end: lineStart + match.index + match[0].length });
+            }
+        }
+        lineStart = lineEnd + 1;
+    });
+    if (fence) ranges.push({ start: fenceStart, end: docText.length }); // An unclosed block runs to the end of the note
+
+    return ranges;
+}
+
+// Wikilinks and embeds intersecting [fromOffset, toOffset], as absolute document offsets
+export function findAtomicRanges(docText: string, fromOffset: number, toOffset: number): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    const regex = new RegExp(ATOMIC_CONSTRUCT_REGEX.source, ATOMIC_CONSTRUCT_REGEX.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(docText)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (start >= toOffset) break;
+        if (end > fromOffset) ranges.push({ start, end });
+    }
+    return ranges;
+}
+
+// Block prefixes of every line intersecting [fromOffset, toOffset]
+export function findBlockPrefixRanges(docText: string, fromOffset: number, toOffset: number): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    let lineStart = fromOffset === 0 ? 0 : docText.lastIndexOf('\n', fromOffset - 1) + 1;
+
+    while (lineStart <= toOffset && lineStart <= docText.length) {
+        const lineEnd = docText.indexOf('\n', lineStart);
+        const line = docText.substring(lineStart, lineEnd === -1 ? docText.length : lineEnd);
+        const prefix = line.match(BLOCK_PREFIX_REGEX)?.[0] || '';
+        if (prefix.length > 0) {
+            ranges.push({ start: lineStart, end: lineStart + prefix.length });
+        }
+        if (lineEnd === -1) break;
+        lineStart = lineEnd + 1;
+    }
+    return ranges;
+}
+
+/**
+ * Ranges inside [fromOffset, toOffset] that styling must leave untouched: code, math, link
+ * targets and Markdown block syntax such as list bullets, heading markers and table pipes.
+ * Text inside wikilinks and embeds is not reported, as those are styled as a whole.
+ * Without a syntax tree (e.g. in legacy editors) only block prefixes are protected.
+ */
+export function findProtectedRanges(editor: Editor, fromOffset: number, toOffset: number): OffsetRange[] {
+    const docText = editor.getValue();
+    const prefixRanges = findBlockPrefixRanges(docText, fromOffset, toOffset);
+    const view = getEditorView(editor);
+    if (!view) return prefixRanges;
+
+    const atomicRanges = findAtomicRanges(docText, fromOffset, toOffset);
+    const ranges: OffsetRange[] = [];
+
+    syntaxTree(view.state).iterate({
+        from: fromOffset,
+        to: toOffset,
+        enter: (node) => {
+            const tokenClasses = node.type.name.split('_');
+            if (!tokenClasses.some(cls => SKIPPED_TOKEN_CLASSES.includes(cls))) return;
+            if (atomicRanges.some(range => range.start <= node.from && node.to <= range.end)) return;
+
+            const last = ranges[ranges.length - 1];
+            if (last && last.end >= node.from) {
+                last.end = Math.max(last.end, node.to); // Merge touching tokens
+            } else {
+                ranges.push({ start: node.from, end: node.to });
+            }
+        },
+    });
+
+    return mergeRanges([...prefixRanges, ...ranges]);
+}
+
+function mergeRanges(ranges: OffsetRange[]): OffsetRange[] {
+    const merged: OffsetRange[] = [];
+    [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+        const last = merged[merged.length - 1];
+        if (last && last.end >= range.start) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    });
+    return merged;
+}
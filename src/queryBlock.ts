@@ -0,0 +1,230 @@
+import { MarkdownRenderChild, TFile, debounce, getAllTags } from "obsidian";
+import TextStyler from "./main";
+import { normalizeColor } from "./color";
+import { STYLE_TYPE_NAMES, VALUE_STYLE_TYPES } from "./constants";
+import { StyleType, StyledRun } from "./types";
+
+const SNIPPET_LENGTH = 80;
+
+type QueryFormat = 'table' | 'list';
+
+// Parsed `styler-query` block. Repeated keys are alternatives, different keys must all match.
+interface StylerQuery {
+    styleTypes: StyleType[];
+    colors: string[];
+    paths: string[];
+    tags: string[];
+    format: QueryFormat;
+}
+
+interface QueryResult {
+    file: TFile;
+    run: StyledRun;
+    line: number; // Zero-based
+}
+
+/**
+ * Renders a `styler-query` code block: a table or list of the styled passages
+ * in the vault that match the query, linking back to their notes. The result
+ * is recomputed whenever a note it can list changes.
+ *
+ * ```styler-query
+ * style: highlight
+ * color: #ffff00
+ * path: Projects/
+ * tag: #book
+ * format: list
+ * ```
+ */
+export class StylerQueryRenderer extends MarkdownRenderChild {
+    private plugin: TextStyler;
+    private source: string;
+    private query: StylerQuery;
+
+    private requestRender = debounce(() => this.render().catch(error => this.renderError(error)), 500, true);
+
+    constructor(plugin: TextStyler, containerEl: HTMLElement, source: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+    }
+
+    onload() {
+        try {
+            this.query = parseStylerQuery(this.source);
+        } catch (error) {
+            this.renderError(error);
+            return;
+        }
+
+        // Only notes the query can list are worth a new search
+        const { metadataCache, vault } = this.plugin.app;
+        this.registerEvent(metadataCache.on('changed', (file) => {
+            if (this.isInScope(file)) this.requestRender();
+        }));
+        this.registerEvent(metadataCache.on('deleted', (file) => {
+            if (this.isInScope(file)) this.requestRender();
+        }));
+        this.registerEvent(vault.on('rename', () => this.requestRender()));
+        this.render().catch(error => this.renderError(error));
+    }
+
+    private async render() {
+        const { containerEl, query } = this;
+        const results = await this.runQuery(query);
+        containerEl.empty();
+        containerEl.addClass('styler-query');
+        if (results.length === 0) {
+            containerEl.createDiv({ text: "No matching styled text.", cls: 'styler-query-empty' });
+            return;
+        }
+
+        if (query.format === 'list') {
+            this.renderList(containerEl, results);
+        } else {
+            this.renderTable(containerEl, results);
+        }
+    }
+
+    private renderError(error: unknown) {
+        this.containerEl.empty();
+        this.containerEl.createDiv({ text: `Styler query: ${error instanceof Error ? error.message : String(error)}`, cls: 'styler-query-error' });
+    }
+
+    private isInScope(file: TFile): boolean {
+        return file.extension === 'md' && (this.query.paths.length === 0 || this.query.paths.some(path => file.path.startsWith(path)));
+    }
+
+    private async runQuery(query: StylerQuery): Promise<QueryResult[]> {
+        const { vault } = this.plugin.app;
+        const files = vault.getMarkdownFiles()
+            .filter(file => this.matchesFile(file, query))
+            .sort((a, b) => a.path.localeCompare(b.path));
+
+        const results: QueryResult[] = [];
+        for (const file of files) {
+            const source = await vault.cachedRead(file);
+            this.plugin.styleManager.findStyledRuns(source)
+                .filter(run => this.matchesRun(run, query))
+                .forEach(run => results.push({ file, run, line: source.substring(0, run.start).split('\n').length - 1 }));
+        }
+        return results;
+    }
+
+    private matchesFile(file: TFile, query: StylerQuery): boolean {
+        if (query.paths.length > 0 && !query.paths.some(path => file.path.startsWith(path))) return false;
+        if (query.tags.length === 0) return true;
+
+        const cache = this.plugin.app.metadataCache.getFileCache(file);
+        const fileTags = (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.toLowerCase());
+        // A tag also matches its nested tags, as in Obsidian's search
+        return query.tags.some(tag => fileTags.some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`)));
+    }
+
+    private matchesRun(run: StyledRun, query: StylerQuery): boolean {
+        if (query.styleTypes.length > 0 && !query.styleTypes.includes(run.style.type)) return false;
+        if (query.colors.length === 0) return true;
+        return !!run.style.value && query.colors.includes(normalizeColor(run.style.value));
+    }
+
+    private renderTable(containerEl: HTMLElement, results: QueryResult[]) {
+        const tableEl = containerEl.createEl('table');
+        const headerRow = tableEl.createEl('thead').createEl('tr');
+        ["Note", "Line", "Style", "Text"].forEach(title => headerRow.createEl('th', { text: title }));
+
+        const bodyEl = tableEl.createEl('tbody');
+        results.forEach(result => {
+            const rowEl = bodyEl.createEl('tr');
+            this.createLink(rowEl.createEl('td'), result, result.file.basename);
+            rowEl.createEl('td', { text: `${result.line + 1}` });
+            this.renderStyle(rowEl.createEl('td'), result.run);
+            rowEl.createEl('td', { text: this.getSnippet(result.run.text) });
+        });
+    }
+
+    private renderList(containerEl: HTMLElement, results: QueryResult[]) {
+        const listEl = containerEl.createEl('ul');
+        results.forEach(result => {
+            const itemEl = listEl.createEl('li');
+            this.renderStyle(itemEl, result.run);
+            itemEl.createSpan({ text: ` ${this.getSnippet(result.run.text)} ` });
+            this.createLink(itemEl, result, `${result.file.basename}:${result.line + 1}`);
+        });
+    }
+
+    private renderStyle(containerEl: HTMLElement, run: StyledRun) {
+        if (run.style.value) {
+            const swatchEl = containerEl.createSpan({ cls: 'styler-query-swatch' });
+            swatchEl.style.backgroundColor = run.style.value;
+        }
+        containerEl.createSpan({ text: STYLE_TYPE_NAMES[run.style.type] });
+    }
+
+    // Internal link that opens the note at the passage's line
+    private createLink(containerEl: HTMLElement, result: QueryResult, text: string) {
+        const linkEl = containerEl.createEl('a', { text, cls: 'internal-link', href: result.file.path });
+        linkEl.dataset.href = result.file.path;
+        linkEl.addEventListener('click', (event) => {
+            event.preventDefault();
+            const leaf = this.plugin.app.workspace.getLeaf(event.ctrlKey || event.metaKey);
+            leaf.openFile(result.file, { eState: { line: result.line } });
+        });
+    }
+
+    private getSnippet(text: string): string {
+        const snippet = text.replace(/\s+/g, ' ').trim();
+        return snippet.length > SNIPPET_LENGTH ? `${snippet.substring(0, SNIPPET_LENGTH)}…` : snippet;
+    }
+}
+
+// Parses the `key: value` lines of a query block; throws on unknown keys or values
+function parseStylerQuery(source: string): StylerQuery {
+    const query: StylerQuery = { styleTypes: [], colors: [], paths: [], tags: [], format: 'table' };
+
+    source.split('\n').forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('//')) return;
+
+        const colonIndex = line.indexOf(':');
+        if (colonIndex === -1) throw new Error(`Expected "key: value", got "${line}".`);
+        const key = line.substring(0, colonIndex).trim().toLowerCase();
+        const value = line.substring(colonIndex + 1).trim();
+        if (!value) throw new Error(`Missing value for "${key}".`);
+
+        switch (key) {
+            case 'style':
+                query.styleTypes.push(parseStyleType(value));
+                break;
+            case 'color':
+                query.colors.push(normalizeColor(value));
+                break;
+            case 'path':
+                query.paths.push(value.replace(/^\/+/, ''));
+                break;
+            case 'tag':
+                query.tags.push((value.startsWith('#') ? value : `#${value}`).toLowerCase());
+                break;
+            case 'format':
+                if (value !== 'table' && value !== 'list') throw new Error(`Unknown format "${value}", use "table" or "list".`);
+                query.format = value;
+                break;
+            default:
+                throw new Error(`Unknown key "${key}".`);
+        }
+    });
+
+    // A color on its own matches every style that has one
+    if (query.colors.length > 0 && query.styleTypes.length === 0) {
+        query.styleTypes = [...VALUE_STYLE_TYPES];
+    }
+    return query;
+}
+
+// Accepts style type ids (`colored-underline`) as well as display names (`Colored Underline`)
+function parseStyleType(value: string): StyleType {
+    const normalized = value.toLowerCase();
+    const styleType = (Object.keys(STYLE_TYPE_NAMES) as StyleType[])
+        .find(type => type === normalized || STYLE_TYPE_NAMES[type].toLowerCase() === normalized);
+    if (!styleType) throw new Error(`Unknown style "${value}".`);
+    return styleType;
+}
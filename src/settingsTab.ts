@@ -1,6 +1,9 @@
 import { App, PluginSettingTab, Setting, ColorComponent, BaseComponent } from "obsidian";
 import TextStyler from "./main"; // Assuming main class is TextStyler
-import { DEFAULT_SETTINGS, MAX_COLOR_SLOTS, DEFAULT_COLORED_UNDERLINE_THICKNESS, DEFAULT_CIRCLE_THICKNESS } from "./constants";
+import { DEFAULT_SETTINGS, MAX_COLOR_SLOTS, DEFAULT_COLORED_UNDERLINE_THICKNESS, DEFAULT_CIRCLE_THICKNESS, DEFAULT_TEXT_COLOR, MARKDOWN_MARKERS, STYLE_TYPE_NAMES, TOOLBAR_BUTTONS, VALUE_STYLE_TYPES } from "./constants";
+import { toPickerHex, withAlphaOf } from "./color";
+import { ColorModal } from "./colorModal";
+import { ColorLabel, MarkdownStyleType, OutputMode, PresetStyle, StylePreset, StyleType } from "./types";
 
 
 
@@ -23,7 +26,7 @@ export class StylerSettingsTab extends PluginSettingTab {
         containerEl.createEl("h3", { text: "Text Color" });
         new Setting(containerEl)
             .setName("Number of Text Color Slots")
-            .setDesc(`Set the number of quick-access text color slots in the status bar (1-${MAX_COLOR_SLOTS}). Requires reload.`)
+            .setDesc(`Set the number of quick-access text color slots in the status bar (1-${MAX_COLOR_SLOTS}).`)
             .addText((text) => text
                 .setPlaceholder(String(DEFAULT_SETTINGS.textColorSlots))
                 .setValue(String(this.plugin.settings.textColorSlots))
@@ -34,8 +37,9 @@ export class StylerSettingsTab extends PluginSettingTab {
                     this.plugin.settings.textColorSlots = num;
                     // Ensure color arrays match new size on save
                     await this.plugin.saveSettings(true); // Pass flag to resize arrays
+                    this.plugin.statusBar?.rebuild();
+                    this.plugin.syncSlotCommands();
                     text.setValue(String(this.plugin.settings.textColorSlots)); // Update display
-                    // Note: User still needs to reload manually for status bar change
                 })
             );
 
@@ -43,13 +47,14 @@ export class StylerSettingsTab extends PluginSettingTab {
             .setName("Favorite Text Colors")
             .setDesc("Set your favorite text colors for the picker modal.");
         this.renderColorPickers(this.favoriteTextColorsSetting, this.plugin.settings.favoriteTextColors, 'text');
+        this.renderLabelSettings(containerEl, 'text');
 
 
         // --- Highlight Color Settings ---
          containerEl.createEl("h3", { text: "Highlight Color" });
          new Setting(containerEl)
             .setName("Number of Highlight Color Slots")
-            .setDesc(`Set the number of quick-access highlight color slots in the status bar (1-${MAX_COLOR_SLOTS}). Requires reload.`)
+            .setDesc(`Set the number of quick-access highlight color slots in the status bar (1-${MAX_COLOR_SLOTS}).`)
             .addText((text) => text
                 .setPlaceholder(String(DEFAULT_SETTINGS.highlightColorSlots))
                 .setValue(String(this.plugin.settings.highlightColorSlots))
@@ -59,6 +64,8 @@ export class StylerSettingsTab extends PluginSettingTab {
                     if (num > MAX_COLOR_SLOTS) num = MAX_COLOR_SLOTS;
                     this.plugin.settings.highlightColorSlots = num;
                     await this.plugin.saveSettings(true); // Resize arrays
+                    this.plugin.statusBar?.rebuild();
+                    this.plugin.syncSlotCommands();
                     text.setValue(String(this.plugin.settings.highlightColorSlots));
                 })
             );
@@ -67,6 +74,104 @@ export class StylerSettingsTab extends PluginSettingTab {
             .setName("Favorite Highlight Colors")
             .setDesc("Set your favorite highlight colors for the picker modal.");
         this.renderColorPickers(this.favoriteHighlightColorsSetting, this.plugin.settings.favoriteHighlightColors, 'highlight');
+        this.renderLabelSettings(containerEl, 'highlight');
+
+        containerEl.createEl("h3", { text: "Behavior" });
+
+        new Setting(containerEl)
+            .setName("Style Word at Cursor")
+            .setDesc("When nothing is selected, apply styles to the word under the cursor, or to the whole styled text if the cursor is inside it.")
+            .addToggle((toggle) => toggle
+                .setValue(this.plugin.settings.expandEmptySelection)
+                .onChange(async (value) => {
+                    this.plugin.settings.expandEmptySelection = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName("Hide Span Markup in Editor")
+            .setDesc("Show styled text instead of raw <span> tags while editing. Tags reappear when the cursor is inside the styled text.")
+            .addToggle((toggle) => toggle
+                .setValue(this.plugin.settings.hideSpanMarkup)
+                .onChange(async (value) => {
+                    this.plugin.settings.hideSpanMarkup = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.updateEditorExtensions();
+                })
+            );
+
+        containerEl.createEl("h3", { text: "Floating Toolbar" });
+
+        new Setting(containerEl)
+            .setName("Show Floating Toolbar")
+            .setDesc("Show style buttons next to the selected text. Press Escape to hide them.")
+            .addToggle((toggle) => toggle
+                .setValue(this.plugin.settings.showFloatingToolbar)
+                .onChange(async (value) => {
+                    this.plugin.settings.showFloatingToolbar = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Show or hide the button toggles
+                })
+            );
+
+        if (this.plugin.settings.showFloatingToolbar) {
+            TOOLBAR_BUTTONS.forEach((button) => {
+                new Setting(containerEl)
+                    .setClass("styler-preset-style")
+                    .setName(button === 'remove-all' ? "Remove All Styling" : STYLE_TYPE_NAMES[button])
+                    .addToggle((toggle) => toggle
+                        .setValue(this.plugin.settings.toolbarButtons.includes(button))
+                        .onChange(async (value) => {
+                            const enabled = new Set(this.plugin.settings.toolbarButtons);
+                            if (value) enabled.add(button);
+                            else enabled.delete(button);
+                            this.plugin.settings.toolbarButtons = TOOLBAR_BUTTONS.filter(b => enabled.has(b));
+                            await this.plugin.saveSettings();
+                        })
+                    );
+            });
+        }
+
+        containerEl.createEl("h3", { text: "Output Format" });
+
+        const outputModeNames: Record<MarkdownStyleType, string> = {
+            'bold': "Bold",
+            'italic': "Italic",
+            'strike': "Strikethrough",
+            'highlight': "Highlight",
+        };
+        (Object.keys(outputModeNames) as MarkdownStyleType[]).forEach((styleType) => {
+            new Setting(containerEl)
+                .setName(`${outputModeNames[styleType]} Output`)
+                .setDesc(`Write ${outputModeNames[styleType].toLowerCase()} as an HTML span or as native Markdown (${MARKDOWN_MARKERS[styleType]}).${styleType === 'highlight' ? " Native highlights ignore the slot color." : ""}`)
+                .addDropdown((dropdown) => dropdown
+                    .addOption('html', "HTML span")
+                    .addOption('markdown', "Markdown")
+                    .setValue(this.plugin.settings.outputModes[styleType])
+                    .onChange(async (value) => {
+                        this.plugin.settings.outputModes[styleType] = value as OutputMode;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // --- Preset Settings ---
+        containerEl.createEl("h3", { text: "Presets" });
+        containerEl.createEl("p", {
+            text: "Presets combine several styles under one command and context-menu entry. They always use HTML spans, even for styles set to Markdown output.",
+            cls: "setting-item-description",
+        });
+        this.plugin.settings.presets.forEach((preset) => this.renderPreset(containerEl, preset));
+        new Setting(containerEl)
+            .addButton((btn) => btn
+                .setButtonText("Add Preset")
+                .onClick(async () => {
+                    this.plugin.settings.presets.push({ id: Date.now().toString(36), name: "New Preset", styles: [] });
+                    await this.savePresets();
+                    this.display();
+                })
+            );
 
         containerEl.createEl("h3", { text: "Style Appearance" });
 
@@ -100,9 +205,196 @@ export class StylerSettingsTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(containerEl)
+            .setName("Adapt Colors to Dark Themes")
+            .setDesc("While a dark theme is active, lighten text colors and darken highlights until they are readable. Notes keep their colors; status bar slots show the dark variant in their lower right corner.")
+            .addToggle((toggle) => toggle
+                .setValue(this.plugin.settings.adaptColorsToDarkTheme)
+                .onChange(async (value) => {
+                    this.plugin.settings.adaptColorsToDarkTheme = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.themeColors.refresh();
+                    this.plugin.statusBar?.refreshCellColors();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName("Highlight Opacity")
+            .setDesc("Opacity of all highlights, on top of each highlight color's own opacity. Lower values keep text readable on dark themes and let stacked highlights show through.")
+            .addSlider((slider) => slider
+                .setLimits(0, 100, 5)
+                .setValue(this.plugin.settings.highlightOpacity)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.highlightOpacity = value;
+                    this.plugin.applyHighlightOpacity();
+                    await this.plugin.saveSettings();
+                })
+            );
+
 
     }
 
+    // Renders one preset: its name, one row per style and an "Add Style" button
+    renderPreset(containerEl: HTMLElement, preset: StylePreset) {
+        const describeStyle = (style: PresetStyle) => style.value ? `${STYLE_TYPE_NAMES[style.type]} ${style.value}` : STYLE_TYPE_NAMES[style.type];
+
+        new Setting(containerEl)
+            .setName(preset.name || "Untitled Preset")
+            .setDesc(preset.styles.map(describeStyle).join(" + ") || "No styles yet.")
+            .addText((text) => text
+                .setPlaceholder("Preset name")
+                .setValue(preset.name)
+                .onChange(async (value) => {
+                    preset.name = value;
+                    await this.savePresets();
+                })
+            )
+            .addExtraButton((button) => button
+                .setIcon("trash")
+                .setTooltip("Delete preset")
+                .onClick(async () => {
+                    this.plugin.settings.presets = this.plugin.settings.presets.filter(p => p !== preset);
+                    await this.savePresets();
+                    this.display();
+                })
+            );
+
+        preset.styles.forEach((style) => {
+            const setting = new Setting(containerEl)
+                .setClass("styler-preset-style")
+                .addDropdown((dropdown) => {
+                    (Object.keys(STYLE_TYPE_NAMES) as StyleType[]).forEach((type) => dropdown.addOption(type, STYLE_TYPE_NAMES[type]));
+                    dropdown
+                        .setValue(style.type)
+                        .onChange(async (value) => {
+                            style.type = value as StyleType;
+                            style.value = VALUE_STYLE_TYPES.includes(style.type) ? (style.value || DEFAULT_TEXT_COLOR) : null;
+                            await this.savePresets();
+                            this.display(); // Show or hide the color picker
+                        });
+                });
+
+            if (style.value !== null) {
+                setting.addColorPicker((cp) => cp
+                    .setValue(toPickerHex(this.plugin.themeColors.resolveColor(style.value || DEFAULT_TEXT_COLOR)))
+                    .onChange(async (value) => {
+                        style.value = value;
+                        await this.savePresets();
+                    })
+                );
+            }
+
+            setting.addExtraButton((button) => button
+                .setIcon("x")
+                .setTooltip("Remove style")
+                .onClick(async () => {
+                    preset.styles = preset.styles.filter(s => s !== style);
+                    await this.savePresets();
+                    this.display();
+                })
+            );
+        });
+
+        new Setting(containerEl)
+            .setClass("styler-preset-style")
+            .addButton((btn) => btn
+                .setButtonText("Add Style")
+                .onClick(async () => {
+                    preset.styles.push({ type: 'bold', value: null });
+                    await this.savePresets();
+                    this.display();
+                })
+            );
+    }
+
+    // Collapsible label and description fields for the slots and favorite colors of one type
+    renderLabelSettings(containerEl: HTMLElement, type: 'text' | 'highlight') {
+        const detailsEl = containerEl.createEl("details", { cls: "styler-label-settings" });
+        detailsEl.createEl("summary", { text: type === 'text' ? "Text Color Labels" : "Highlight Color Labels" });
+        detailsEl.createEl("p", {
+            text: "Name what a color means, e.g. \"Definition\". Labels appear in tooltips, the color picker and the color legend. Edit a color here to use a theme color.",
+            cls: "setting-item-description",
+        });
+
+        const settings = this.plugin.settings;
+        // Read the arrays on every change, resizing the slots replaces them
+        const groups: { name: string, colors: () => string[], labels: () => ColorLabel[], isSlot: boolean }[] = type === 'text'
+            ? [
+                { name: "Slot", colors: () => settings.textColors, labels: () => settings.textColorLabels, isSlot: true },
+                { name: "Favorite", colors: () => settings.favoriteTextColors, labels: () => settings.favoriteTextColorLabels, isSlot: false },
+            ]
+            : [
+                { name: "Slot", colors: () => settings.highlightColors, labels: () => settings.highlightColorLabels, isSlot: true },
+                { name: "Favorite", colors: () => settings.favoriteHighlightColors, labels: () => settings.favoriteHighlightColorLabels, isSlot: false },
+            ];
+
+        groups.forEach(group => {
+            group.colors().forEach((color, index) => {
+                const label = group.labels()[index];
+                if (!label) return;
+                const setting = new Setting(detailsEl)
+                    .setName(`${group.name} ${index + 1}`)
+                    .setDesc(color)
+                    .addText((text) => text
+                        .setPlaceholder("Label")
+                        .setValue(label.label)
+                        .onChange(async (value) => {
+                            const current = group.labels()[index];
+                            if (!current) return; // Slot removed since the list was rendered
+                            current.label = value.trim();
+                            await this.saveLabels(group.isSlot);
+                        })
+                    )
+                    .addText((text) => text
+                        .setPlaceholder("Description")
+                        .setValue(label.description)
+                        .onChange(async (value) => {
+                            const current = group.labels()[index];
+                            if (!current) return; // Slot removed since the list was rendered
+                            current.description = value.trim();
+                            await this.saveLabels(group.isSlot);
+                        })
+                    )
+                    // The color modal also offers theme colors, which the pickers cannot show
+                    .addExtraButton((button) => button
+                        .setIcon("palette")
+                        .setTooltip("Edit color")
+                        .onClick(() => new ColorModal({
+                            app: this.app,
+                            plugin: this.plugin,
+                            initialColor: color,
+                            colorType: type,
+                            slotIndex: group.isSlot ? index : undefined,
+                            onSubmit: async (newColor) => {
+                                const colors = group.colors();
+                                if (index >= colors.length) return;
+                                colors[index] = newColor;
+                                await this.saveLabels(group.isSlot); // Slot colors show in the status bar too
+                                this.display();
+                            },
+                        }).open())
+                    );
+                setting.nameEl.prepend(createSpan({ cls: "styler-label-swatch", attr: { style: `background-color: ${color}` } }));
+            });
+        });
+    }
+
+    // Slot labels are shown on the status bar cells and in the slot command names
+    async saveLabels(isSlot: boolean) {
+        await this.plugin.saveSettings();
+        if (isSlot) {
+            this.plugin.statusBar?.rebuild();
+            this.plugin.syncSlotCommands();
+        }
+    }
+
+    // Preset names and the preset list drive command registration
+    async savePresets() {
+        await this.plugin.saveSettings();
+        this.plugin.syncPresetCommands();
+    }
+
     // Helper to render color pickers and handle updates
     renderColorPickers(setting: Setting, colorArray: string[], type: 'text' | 'highlight') {
         // Clear existing color pickers before rendering
@@ -111,9 +403,9 @@ export class StylerSettingsTab extends PluginSettingTab {
 
         colorArray.forEach((color, index) => {
             setting.addColorPicker((cp) => cp
-                .setValue(color)
+                .setValue(toPickerHex(this.plugin.themeColors.resolveColor(color))) // Color inputs only take opaque HEX
                 .onChange(async (value) => {
-                    colorArray[index] = value;
+                    colorArray[index] = withAlphaOf(value, colorArray[index]);
                     await this.plugin.saveSettings();
                 })
             );
@@ -128,11 +420,14 @@ export class StylerSettingsTab extends PluginSettingTab {
                     .onClick(async () => {
                         if (type === 'text') {
                             this.plugin.settings.favoriteTextColors = [...DEFAULT_SETTINGS.favoriteTextColors];
+                            this.plugin.settings.favoriteTextColorLabels = [];
                         } else {
                             this.plugin.settings.favoriteHighlightColors = [...DEFAULT_SETTINGS.favoriteHighlightColors];
+                            this.plugin.settings.favoriteHighlightColorLabels = [];
                         }
                         this.renderColorPickers(setting, colorArray, type); // Re-render
-                        await this.plugin.saveSettings();
+                        await this.plugin.saveSettings(true); // Resizes the labels to the restored colors
+                        this.display();
                     });
             });
          }
@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from "obsidian";
+import { ColorLabel } from "./types";
+
+interface SlotLabelModalProps {
+    app: App;
+    title: string;
+    initialLabel: ColorLabel;
+    onSubmit: (result: ColorLabel) => void;
+}
+
+// Edits the label and description of one color slot
+export class SlotLabelModal extends Modal {
+    private props: SlotLabelModalProps;
+    private result: ColorLabel;
+
+    constructor(props: SlotLabelModalProps) {
+        super(props.app);
+        this.props = props;
+        this.result = { ...props.initialLabel };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl("h1", { text: this.props.title });
+
+        new Setting(contentEl)
+            .setName("Label")
+            .setDesc("Shown in tooltips, command names and the color legend.")
+            .addText((text) => {
+                text.setPlaceholder("Definition")
+                    .setValue(this.result.label)
+                    .onChange((value) => { this.result.label = value.trim(); });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') this.submit();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName("Description")
+            .addText((text) => text
+                .setPlaceholder("Terms defined in the text")
+                .setValue(this.result.description)
+                .onChange((value) => { this.result.description = value.trim(); })
+            );
+
+        new Setting(contentEl)
+            .addButton((btn) => btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(() => this.submit())
+            );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private submit() {
+        this.close();
+        this.props.onSubmit(this.result);
+    }
+}
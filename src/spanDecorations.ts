@@ -0,0 +1,91 @@
+import { Range, StateEffect } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { isInCode } from "./markdownSyntax";
+import { parseSpanTree } from "./spanParser";
+import { SpanTree, SpanTreeNode, StylerSpanNode } from "./types";
+import type { ThemeColorAdapter } from "./themeColors";
+
+// Rebuilds the decorations without a document change, e.g. after the theme changed
+export const refreshSpanDecorations = StateEffect.define<null>();
+
+/**
+ * Hides the markup of styler spans in the editor and shows their text styled with the
+ * classes and variables from `styles.css` instead. The tags of a span reappear while the
+ * cursor is inside it, and hidden tags are atomic so the cursor skips over them.
+ */
+class StylerSpanDecorations implements PluginValue {
+    decorations: DecorationSet;
+    hiddenTags: DecorationSet;
+    private themeColors: ThemeColorAdapter;
+    private tree: SpanTree; // Parsed once per document change, reused for cursor moves and scrolling
+
+    constructor(view: EditorView, themeColors: ThemeColorAdapter) {
+        this.themeColors = themeColors;
+        this.decorations = Decoration.none;
+        this.hiddenTags = Decoration.none;
+        this.tree = parseSpanTree(view.state.doc.toString());
+        this.build(view);
+    }
+
+    update(update: ViewUpdate) {
+        if (update.docChanged) {
+            this.tree = parseSpanTree(update.state.doc.toString());
+        }
+        const refreshed = update.transactions.some(tr => tr.effects.some(effect => effect.is(refreshSpanDecorations)));
+        if (update.docChanged || update.selectionSet || update.viewportChanged || refreshed) {
+            this.build(update.view);
+        }
+    }
+
+    // Decorates the spans in the visible ranges only; spans outside them, and their children, are skipped
+    private build(view: EditorView) {
+        const { state, visibleRanges } = view;
+        const marks: Range<Decoration>[] = [];
+        const hidden: Range<Decoration>[] = [];
+        if (visibleRanges.length === 0) {
+            this.hiddenTags = Decoration.none;
+            this.decorations = Decoration.none;
+            return;
+        }
+        const visibleFrom = visibleRanges[0].from;
+        const visibleTo = visibleRanges[visibleRanges.length - 1].to;
+
+        const isVisible = (node: StylerSpanNode) => visibleRanges.some(range => node.openStart < range.to && node.closeEnd > range.from);
+        const hasCursorInside = (node: StylerSpanNode) => state.selection.ranges.some(range => range.to > node.openStart && range.from < node.closeEnd);
+
+        const visit = (nodes: SpanTreeNode[]) => {
+            for (const node of nodes) {
+                if (node.type !== 'span' || node.closeEnd === -1 || node.closeEnd <= visibleFrom) continue;
+                if (node.openStart >= visibleTo) break; // Siblings are in document order
+                if (!isVisible(node)) continue;
+
+                if (!isInCode(state, node.openStart)) {
+                    if (node.openEnd < node.closeStart) {
+                        const variables = { ...node.variables, ...this.themeColors.getAdaptedVariables(node.variables) };
+                        marks.push(Decoration.mark({
+                            class: node.classList.join(' '),
+                            attributes: { style: Object.entries(variables).map(([k, v]) => `${k}: ${v}`).join('; ') },
+                        }).range(node.openEnd, node.closeStart));
+                    }
+                    if (!hasCursorInside(node)) {
+                        hidden.push(Decoration.replace({}).range(node.openStart, node.openEnd));
+                        hidden.push(Decoration.replace({}).range(node.closeStart, node.closeEnd));
+                    }
+                }
+                visit(node.children);
+            }
+        };
+        visit(this.tree.children);
+
+        this.hiddenTags = Decoration.set(hidden, true);
+        this.decorations = Decoration.set([...marks, ...hidden], true);
+    }
+}
+
+// Dark theme variants of the span colors come from `themeColors`
+export function createStylerSpanDecorations(themeColors: ThemeColorAdapter) {
+    return ViewPlugin.define((view) => new StylerSpanDecorations(view, themeColors), {
+        decorations: (value) => value.decorations,
+        provide: (plugin) => EditorView.atomicRanges.of((view) => view.plugin(plugin)?.hiddenTags ?? Decoration.none),
+    });
+}
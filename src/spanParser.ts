@@ -0,0 +1,182 @@
+import { CLASS_PREFIX } from "./constants";
+import { SegmentStyle, SelectionSegment, SpanTree, SpanTreeNode, StylerSpanNode } from "./types";
+
+const SPAN_TAG_REGEX = /<\/?span\b[^>]*>/gi;
+const STYLER_VAR_PREFIX = '--styler-';
+
+export function extractClasses(tag: string): string[] {
+    const classMatch = tag.match(/class="([^"]*)"/i);
+    return classMatch && classMatch[1] ? classMatch[1].split(/\s+/).filter(Boolean) : [];
+}
+
+// Parses every declaration of the inline style attribute (values may contain ':' e.g. in urls)
+export function extractStyles(tag: string): Record<string, string> {
+    const styleMatch = tag.match(/style="([^"]*)"/i);
+    const styles: Record<string, string> = {};
+    if (styleMatch && styleMatch[1]) {
+        styleMatch[1].split(';').forEach(stylePart => {
+            const colonIndex = stylePart.indexOf(':');
+            if (colonIndex === -1) return;
+            const key = stylePart.substring(0, colonIndex).trim();
+            const value = stylePart.substring(colonIndex + 1).trim();
+            if (key && value) {
+                styles[key] = value;
+            }
+        });
+    }
+    return styles;
+}
+
+// Only the --styler-* custom properties are owned by the plugin
+export function extractStylerVariables(style: Record<string, string>): Record<string, string> {
+    const variables: Record<string, string> = {};
+    Object.entries(style).forEach(([key, value]) => {
+        if (key.startsWith(STYLER_VAR_PREFIX)) {
+            variables[key] = value;
+        }
+    });
+    return variables;
+}
+
+// A span belongs to the plugin if it carries a styler class or a --styler-* variable
+export function isStylerTag(tag: string): boolean {
+    if (extractClasses(tag).some(cls => cls.startsWith(CLASS_PREFIX))) return true;
+    return Object.keys(extractStyles(tag)).some(key => key.startsWith(STYLER_VAR_PREFIX));
+}
+
+/**
+ * Builds a tree of styler spans for `source`. Offsets are relative to `source`.
+ * Spans not created by the plugin are kept verbatim (tags and content) as text.
+ * Orphan closing tags and unclosed opening tags mark the tree as unbalanced.
+ */
+export function parseSpanTree(source: string): SpanTree {
+    const root: SpanTreeNode[] = [];
+    const stack: StylerSpanNode[] = [];
+    let isBalanced = true;
+    let opaqueDepth = 0; // Nesting depth inside a non-styler span
+    let textStart = 0;
+
+    const children = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+    const flushText = (end: number) => {
+        if (end <= textStart) return;
+        const siblings = children();
+        const last = siblings[siblings.length - 1];
+        if (last && last.type === 'text' && last.end === textStart) {
+            last.text += source.substring(textStart, end);
+            last.end = end;
+        } else {
+            siblings.push({ type: 'text', text: source.substring(textStart, end), start: textStart, end });
+        }
+        textStart = end;
+    };
+
+    const tagRegex = new RegExp(SPAN_TAG_REGEX.source, SPAN_TAG_REGEX.flags);
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(source)) !== null) {
+        const tag = match[0];
+        const tagStart = match.index;
+        const tagEnd = tagStart + tag.length;
+        const isClosing = tag.startsWith('</');
+
+        if (opaqueDepth > 0) {
+            // Everything inside a foreign span stays text, its own close tag included
+            opaqueDepth += isClosing ? -1 : 1;
+            continue;
+        }
+
+        if (isClosing) {
+            if (stack.length === 0) {
+                isBalanced = false; // Orphan close tag is kept as text
+                continue;
+            }
+            flushText(tagStart);
+            const node = stack.pop() as StylerSpanNode;
+            node.closeStart = tagStart;
+            node.closeEnd = tagEnd;
+            textStart = tagEnd;
+            continue;
+        }
+
+        if (!isStylerTag(tag)) {
+            opaqueDepth = 1;
+            continue;
+        }
+
+        flushText(tagStart);
+        const style = extractStyles(tag);
+        const node: StylerSpanNode = {
+            type: 'span',
+            startTag: tag,
+            openStart: tagStart,
+            openEnd: tagEnd,
+            closeStart: -1,
+            closeEnd: -1,
+            classList: extractClasses(tag),
+            variables: extractStylerVariables(style),
+            children: [],
+            parent: stack.length > 0 ? stack[stack.length - 1] : null,
+        };
+        children().push(node);
+        stack.push(node);
+        textStart = tagEnd;
+    }
+    flushText(source.length);
+
+    if (stack.length > 0 || opaqueDepth > 0) {
+        isBalanced = false;
+    }
+
+    return { source, children: root, isBalanced };
+}
+
+// Closed styler spans whose content contains `offset`, outermost first
+export function findSpanChainAt(nodes: SpanTreeNode[], offset: number): StylerSpanNode[] {
+    for (const node of nodes) {
+        if (node.type !== 'span' || node.closeEnd === -1) continue;
+        if (node.openEnd <= offset && offset <= node.closeStart) {
+            return [node, ...findSpanChainAt(node.children, offset)];
+        }
+    }
+    return [];
+}
+
+/**
+ * Flattens the tree into text segments. Each segment carries the chain of
+ * styler spans enclosing it and the effective style of that chain, where
+ * classes accumulate and inner variables override outer ones.
+ */
+export function flattenSpanTree(tree: SpanTree): SelectionSegment[] {
+    const segments: SelectionSegment[] = [];
+
+    const walk = (nodes: SpanTreeNode[], chain: StylerSpanNode[]) => {
+        nodes.forEach(node => {
+            if (node.type === 'span') {
+                walk(node.children, [...chain, node]);
+                return;
+            }
+            segments.push({
+                text: node.text,
+                start: node.start,
+                end: node.end,
+                spans: chain,
+                span: chain.length > 0 ? mergeSpanChain(chain) : null,
+            });
+        });
+    };
+    walk(tree.children, []);
+
+    return segments;
+}
+
+// Effective style of nested spans: classes accumulate, inner variables override outer ones
+export function mergeSpanChain(chain: StylerSpanNode[]): SegmentStyle {
+    const classList: string[] = [];
+    const variables: Record<string, string> = {};
+    chain.forEach(node => {
+        node.classList.forEach(cls => {
+            if (!classList.includes(cls)) classList.push(cls);
+        });
+        Object.assign(variables, node.variables);
+    });
+    return { classList, variables };
+}
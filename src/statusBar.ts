@@ -1,7 +1,14 @@
-import { setIcon } from "obsidian";
+import { MarkdownView, Menu, Notice, debounce, setIcon } from "obsidian";
 import TextStyler from "./main";
 import { ColorModal } from "./colorModal";
-import { CLASS_PREFIX } from "./constants";
+import { CLASS_PREFIX, DEFAULT_HIGHLIGHT_COLOR, DEFAULT_SETTINGS, DEFAULT_TEXT_COLOR, STYLE_TYPE_ICONS, STYLE_TYPE_NAMES } from "./constants";
+import { SlotLabelModal } from "./slotLabelModal";
+import { formatColorTooltip } from "./utils";
+import { ColorFormat, formatColor, getContrastBorderColor, toHex } from "./color";
+import { PresetStyle, StyleType } from "./types";
+
+// Styles shown as toggle icons
+const TOGGLE_STYLES: StyleType[] = ['bold', 'italic', 'underline', 'strike', 'circled'];
 
 export class StylerStatusBar {
     private plugin: TextStyler;
@@ -11,12 +18,32 @@ export class StylerStatusBar {
     private textColorCells: HTMLElement[] = [];
     private highlightPaletteEl: HTMLElement;
     private highlightColorCells: HTMLElement[] = [];
+    private draggedCell: { type: 'text' | 'highlight', index: number } | null = null;
+    private styleToggleEls = new Map<StyleType, HTMLElement>();
+    private cursorTextColorEl: HTMLElement;
+    private cursorHighlightColorEl: HTMLElement;
+
+    // Cursor moves come in bursts, the span tree is parsed once they settle
+    requestActiveStylesUpdate = debounce(() => this.updateActiveStyles(), 100, true);
 
     constructor(plugin: TextStyler, containerEl: HTMLElement) {
         this.plugin = plugin;
         this.statusBarEl = containerEl; // This should be plugin.addStatusBarItem()
         this.statusBarEl.addClass('styler-status-bar-item'); // Add main class
 
+        // --- Style Toggles (reflect the styles at the cursor) ---
+        TOGGLE_STYLES.forEach(styleType => {
+            const toggleEl = containerEl.createSpan({ cls: 'styler-status-icon styler-style-toggle' });
+            setIcon(toggleEl, STYLE_TYPE_ICONS[styleType]);
+            toggleEl.setAttribute('aria-label', `Toggle ${STYLE_TYPE_NAMES[styleType]}`);
+            toggleEl.setAttribute('aria-label-position', 'top');
+            toggleEl.addEventListener('click', () => this.handleToggleClick(styleType));
+            this.styleToggleEls.set(styleType, toggleEl);
+        });
+
+        // Divider
+        this.statusBarEl.createSpan({ text: '|', cls: 'styler-status-icon' });
+
         // --- Text Color Palette ---
         const textIconEl = this.statusBarEl.createSpan({ cls: 'styler-status-icon' });
         setIcon(textIconEl, 'palette'); // Icon for text color section
@@ -32,7 +59,54 @@ export class StylerStatusBar {
         this.highlightPaletteEl = this.statusBarEl.createDiv({ cls: 'styler-highlight-palette' });
         this.createColorCells(this.highlightPaletteEl, this.highlightColorCells, 'highlight');
 
+        // --- Colors at the Cursor ---
+        this.cursorTextColorEl = this.statusBarEl.createSpan({ text: 'A', cls: 'styler-cursor-color styler-cursor-text-color' });
+        this.cursorHighlightColorEl = this.statusBarEl.createSpan({ cls: 'styler-cursor-color styler-cursor-highlight-color' });
+        [this.cursorTextColorEl, this.cursorHighlightColorEl].forEach(el => {
+            el.setAttribute('aria-label-position', 'top');
+            el.hide();
+        });
+
         this.updateSelectedVisuals();
+        this.updateActiveStyles();
+    }
+
+    // Toggles a style on the selection of the active note
+    private handleToggleClick(styleType: StyleType) {
+        const editor = this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (!editor) {
+            new Notice("Text Styler: Open a note to apply styles.");
+            return;
+        }
+        // Circles are drawn in the current text color, like the circle command
+        const value = styleType === 'circled' ? this.getCurrentTextColor() : null;
+        this.plugin.styleManager.toggleStyle(editor, styleType, value);
+        this.updateActiveStyles();
+    }
+
+    // Marks the styles at the cursor of the active note and shows its exact colors
+    updateActiveStyles() {
+        const editor = this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        const styles: PresetStyle[] = editor ? this.plugin.styleManager.getStylesAtCursor(editor) : [];
+        const findValue = (styleType: StyleType) => styles.find(style => style.type === styleType)?.value ?? null;
+
+        this.styleToggleEls.forEach((toggleEl, styleType) => {
+            toggleEl.toggleClass('active', styles.some(style => style.type === styleType));
+        });
+
+        const textColor = findValue('color');
+        this.cursorTextColorEl.toggle(!!textColor);
+        if (textColor) {
+            this.cursorTextColorEl.style.color = textColor;
+            this.cursorTextColorEl.setAttribute('aria-label', `Text color at cursor: ${formatColorTooltip(textColor, this.plugin.getColorLabel('text', textColor))}`);
+        }
+
+        const highlightColor = findValue('highlight');
+        this.cursorHighlightColorEl.toggle(!!highlightColor);
+        if (highlightColor) {
+            this.cursorHighlightColorEl.style.backgroundColor = highlightColor;
+            this.cursorHighlightColorEl.setAttribute('aria-label', `Highlight at cursor: ${formatColorTooltip(highlightColor, this.plugin.getColorLabel('highlight', highlightColor))}`);
+        }
     }
 
     private createColorCells(paletteEl: HTMLElement, cellArray: HTMLElement[], type: 'text' | 'highlight') {
@@ -44,8 +118,9 @@ export class StylerStatusBar {
 
         for (let i = 0; i < count; i++) {
             const cell = paletteEl.createDiv({ cls: 'styler-color-cell' });
-            cell.style.backgroundColor = colors[i] || (type === 'text' ? '#000000' : '#ffff00'); // Fallback color
+            this.paintCell(cell, colors[i] || (type === 'text' ? '#000000' : '#ffff00'), type); // Fallback color
             cell.dataset.index = String(i); // Store index
+            this.setCellTooltip(cell, i, type);
 
             cell.addEventListener('click', (event) => {
                 this.handleCellClick(i, type);
@@ -53,6 +128,35 @@ export class StylerStatusBar {
             cell.addEventListener('dblclick', (event) => {
                 this.handleCellDoubleClick(i, type);
             });
+            cell.addEventListener('contextmenu', (event) => {
+                event.preventDefault();
+                this.showCellMenu(event, i, type);
+            });
+
+            // Drag a cell onto another cell of the same palette to reorder the slots
+            cell.draggable = true;
+            cell.addEventListener('dragstart', (event) => {
+                event.dataTransfer?.setData('text/plain', String(i));
+                this.draggedCell = { type, index: i };
+                cell.addClass('is-dragging');
+            });
+            cell.addEventListener('dragend', () => {
+                this.draggedCell = null;
+                cell.removeClass('is-dragging');
+            });
+            cell.addEventListener('dragover', (event) => {
+                if (this.draggedCell?.type !== type) return;
+                event.preventDefault(); // Allows the drop
+                cell.addClass('is-drop-target');
+            });
+            cell.addEventListener('dragleave', () => cell.removeClass('is-drop-target'));
+            cell.addEventListener('drop', (event) => {
+                event.preventDefault();
+                cell.removeClass('is-drop-target');
+                if (this.draggedCell?.type === type) {
+                    this.plugin.moveSlot(type, this.draggedCell.index, i);
+                }
+            });
             cellArray.push(cell);
         }
     }
@@ -75,30 +179,148 @@ export class StylerStatusBar {
             plugin: this.plugin,
             initialColor: currentColor,
             colorType: type,
-            onSubmit: (newColorHex) => { // Expecting HEX
-                if (type === 'text') {
-                    this.plugin.settings.textColors[index] = newColorHex;
-                    this.textColorCells[index].style.backgroundColor = newColorHex;
-                } else {
-                    this.plugin.settings.highlightColors[index] = newColorHex;
-                    this.highlightColorCells[index].style.backgroundColor = newColorHex;
-                }
-                 this.plugin.saveSettings(); // Save the changed color
-                 this.updateSelectedVisuals(); // Ensure border color is updated if needed
-            }
+            slotIndex: index,
+            onSubmit: (newColorHex) => this.setSlotColor(index, type, newColorHex), // Expecting HEX
         }).open();
     }
 
+    private setSlotColor(index: number, type: 'text' | 'highlight', color: string) {
+        if (type === 'text') {
+            this.plugin.settings.textColors[index] = color;
+            this.paintCell(this.textColorCells[index], color, type);
+            this.setCellTooltip(this.textColorCells[index], index, type);
+        } else {
+            this.plugin.settings.highlightColors[index] = color;
+            this.paintCell(this.highlightColorCells[index], color, type);
+            this.setCellTooltip(this.highlightColorCells[index], index, type);
+        }
+        this.plugin.saveSettings(); // Save the changed color
+        this.updateSelectedVisuals(); // Ensure border color is updated if needed
+    }
+
+    private showCellMenu(event: MouseEvent, index: number, type: 'text' | 'highlight') {
+        const color = (type === 'text' ? this.plugin.settings.textColors : this.plugin.settings.highlightColors)[index];
+        const menu = new Menu();
+
+        menu.addItem((item) => item
+            .setTitle("Edit color")
+            .setIcon("palette")
+            .onClick(() => this.handleCellDoubleClick(index, type)));
+        menu.addItem((item) => item
+            .setTitle("Reset to default")
+            .setIcon("rotate-ccw")
+            .onClick(() => {
+                const defaults = type === 'text' ? DEFAULT_SETTINGS.textColors : DEFAULT_SETTINGS.highlightColors;
+                this.setSlotColor(index, type, defaults[index] || (type === 'text' ? DEFAULT_TEXT_COLOR : DEFAULT_HIGHLIGHT_COLOR));
+            }));
+        const copyItems: [ColorFormat, string][] = [['hex', "Copy hex"], ['rgb', "Copy RGB"], ['hsl', "Copy HSL"]];
+        const parsedColor = this.plugin.themeColors.resolveColor(color); // Theme variables copy as their current value
+        copyItems.forEach(([format, title]) => {
+            menu.addItem((item) => item
+                .setTitle(title)
+                .setIcon("copy")
+                .setDisabled(!parsedColor)
+                .onClick(async () => {
+                    if (!parsedColor) return;
+                    const value = formatColor(parsedColor, format);
+                    await navigator.clipboard.writeText(value);
+                    new Notice(`Text Styler: Copied ${value}.`);
+                }));
+        });
+        menu.addItem((item) => item
+            .setTitle("Set label")
+            .setIcon("tag")
+            .onClick(() => this.openLabelModal(index, type)));
+
+        menu.addSeparator();
+
+        const applyItems: [StyleType, string, string][] = [
+            ['color', "Apply as text color", "palette"],
+            ['highlight', "Apply as highlight", "highlighter"],
+            ['colored-underline', "Apply as underline", "underline"],
+        ];
+        applyItems.forEach(([styleType, title, icon]) => {
+            menu.addItem((item) => item
+                .setTitle(title)
+                .setIcon(icon)
+                .onClick(() => this.applyColor(styleType, color)));
+        });
+
+        menu.showAtMouseEvent(event);
+    }
+
+    private openLabelModal(index: number, type: 'text' | 'highlight') {
+        const labels = type === 'text' ? this.plugin.settings.textColorLabels : this.plugin.settings.highlightColorLabels;
+        new SlotLabelModal({
+            app: this.plugin.app,
+            title: `${type === 'text' ? "Text Color" : "Highlight"} Slot ${index + 1} Label`,
+            initialLabel: labels[index] ?? { label: '', description: '' },
+            onSubmit: async (label) => {
+                // Look the array up again, resizing the slots replaces it
+                const currentLabels = type === 'text' ? this.plugin.settings.textColorLabels : this.plugin.settings.highlightColorLabels;
+                if (index >= currentLabels.length) return;
+                currentLabels[index] = label;
+                await this.plugin.saveSettings();
+                this.rebuild();
+                this.plugin.syncSlotCommands();
+            },
+        }).open();
+    }
+
+    // Applies a slot's color to the selection of the active note, whatever the slot type
+    private applyColor(styleType: StyleType, color: string) {
+        const editor = this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (!editor) {
+            new Notice("Text Styler: Open a note to apply styles.");
+            return;
+        }
+        this.plugin.styleManager.toggleStyle(editor, styleType, color);
+    }
+
+    private setCellTooltip(cell: HTMLElement, index: number, type: 'text' | 'highlight') {
+        const colors = type === 'text' ? this.plugin.settings.textColors : this.plugin.settings.highlightColors;
+        const darkVariant = this.getDarkVariant(colors[index], type);
+        const tooltip = formatColorTooltip(colors[index], this.plugin.getSlotLabel(type, index));
+        cell.setAttribute('aria-label', darkVariant ? `${tooltip}\nDark themes: ${darkVariant}` : tooltip);
+        cell.setAttribute('aria-label-position', 'top');
+    }
+
+    // Shows the light color, with its dark theme variant in the lower right corner if it has one
+    private paintCell(cell: HTMLElement, color: string, type: 'text' | 'highlight') {
+        const darkVariant = this.getDarkVariant(color, type);
+        cell.style.backgroundColor = color;
+        cell.style.backgroundImage = darkVariant ? `linear-gradient(135deg, transparent 50%, ${darkVariant} 50%)` : '';
+    }
+
+    // Dark theme variant of a color, or null if colors are not adapted or it needs no change
+    private getDarkVariant(color: string, type: 'text' | 'highlight'): string | null {
+        if (!this.plugin.settings.adaptColorsToDarkTheme) return null;
+        const darkVariant = this.plugin.themeColors.getDarkVariant(color, type === 'highlight');
+        return darkVariant === color ? null : darkVariant;
+    }
+
+    // Repaints the cells, e.g. when the theme changes the dark variants
+    refreshCellColors() {
+        const refresh = (cells: HTMLElement[], colors: string[], type: 'text' | 'highlight') => cells.forEach((cell, i) => {
+            this.paintCell(cell, colors[i], type);
+            this.setCellTooltip(cell, i, type);
+        });
+        refresh(this.textColorCells, this.plugin.settings.textColors, 'text');
+        refresh(this.highlightColorCells, this.plugin.settings.highlightColors, 'highlight');
+    }
+
     // Update visual indicators (borders) for selected cells
     updateSelectedVisuals() {
-        this.textColorCells.forEach((cell, i) => {
-            cell.toggleClass('selected', i === this.plugin.settings.selectedTextColorIndex);
-             // Maybe update border color based on contrast if needed (complex)
-        });
-        this.highlightColorCells.forEach((cell, i) => {
-            cell.toggleClass('selected', i === this.plugin.settings.selectedHighlightColorIndex);
-             // Maybe update border color based on contrast if needed
+        const theme = document.body.hasClass('theme-dark') ? 'dark' : 'light';
+        const update = (cells: HTMLElement[], colors: string[], selectedIndex: number) => cells.forEach((cell, i) => {
+            const isSelected = i === selectedIndex;
+            cell.toggleClass('selected', isSelected);
+            // The selected cell's border must stand out against both the cell and the status bar
+            const resolved = isSelected ? this.plugin.themeColors.resolveColor(colors[i]) : null;
+            cell.style.borderColor = resolved ? getContrastBorderColor(toHex(resolved), theme) : '';
         });
+        update(this.textColorCells, this.plugin.settings.textColors, this.plugin.settings.selectedTextColorIndex);
+        update(this.highlightColorCells, this.plugin.settings.highlightColors, this.plugin.settings.selectedHighlightColorIndex);
     }
 
     // Get the currently selected color HEX value
@@ -110,7 +332,7 @@ export class StylerStatusBar {
         return this.plugin.settings.highlightColors[this.plugin.settings.selectedHighlightColorIndex] || '#ffff00';
     }
 
-    // Call this if settings change (e.g., number of slots) - requires reload usually
+    // Call this if settings change (e.g., number of slots, their order or labels)
     rebuild() {
         if (!this.statusBarEl) return;
         this.createColorCells(this.textPaletteEl, this.textColorCells, 'text');
@@ -1,7 +1,11 @@
-import { Editor, EditorPosition, Notice, EditorRange } from "obsidian";
+import { Editor, EditorChange, Notice } from "obsidian";
 import TextStyler from "./main"; // Import the main plugin class
-import { CLASS_PREFIX, StyleClasses } from "./constants";
-import { SelectionSegment, StyleType } from "./types";
+import { CLASS_PREFIX, MARKDOWN_MARKERS, StyleClasses } from "./constants";
+import { MarkdownStyleType, MarkdownWrap, OffsetRange, ParsedSelection, PresetStyle, RangeReplacement, SegmentStyle, SelectionRange, SelectionSegment, SpanTree, SpanTreeNode, StylerSpanNode, StylePiece, StylePreset, StyleRegion, StyleReplaceAction, StyleType, StyledRun } from "./types";
+import { findSpanChainAt, flattenSpanTree, mergeSpanChain, parseSpanTree } from "./spanParser";
+import { findAtomicRanges, findBlockPrefixRanges, findCodeRanges, findProtectedRanges } from "./markdownSyntax";
+import { applyMarkdownStyle, findMarkdownWrap, isMarkdownStyleActive, isMarkdownStyleType, removeMarkdownStyle, snapToDelimiters } from "./markdownStyles";
+import { isSameColor, normalizeColor } from "./color";
 
 export class StyleManager {
     private plugin: TextStyler;
@@ -14,107 +18,690 @@ export class StyleManager {
     // --- Public API ---
 
     public toggleStyle(editor: Editor, styleType: StyleType, value: string | null = null): void {
-        const selection = editor.listSelections()[0];
-        if (!selection) return;
+        const ranges = this.expandEmptyRanges(editor, this.getSelectionRanges(editor));
+        if (ranges.length === 0) return;
 
-        const from = selection.anchor.line < selection.head.line || (selection.anchor.line === selection.head.line && selection.anchor.ch <= selection.head.ch) ? selection.anchor : selection.head;
-        const to = from === selection.anchor ? selection.head : selection.anchor;
+        if (isMarkdownStyleType(styleType) && this.plugin.settings.outputModes[styleType] === 'markdown') {
+            this.toggleMarkdownStyle(editor, ranges, styleType);
+            return;
+        }
 
-        const selectedText = editor.getRange(from, to);
+        const isColorInsert = (styleType === 'color' || styleType === 'highlight') && !!value;
 
-        // Allow empty selection only for color/highlight insertion (using CSS variables)
-         if (selectedText.length === 0 && (styleType === 'color' || styleType === 'highlight') && value) {
-             const styledEmptySpan = this.createStyledSpan('', styleType, value, null);
-             editor.replaceRange(styledEmptySpan, from, to);
-             const cursorInsidePos = { line: from.line, ch: from.ch + styledEmptySpan.indexOf('>') + 1 };
-             editor.setCursor(cursorInsidePos);
-            return;
-         }
-         // For other styles, require selection for now
-         if (selectedText.length === 0 && styleType !== 'color' && styleType !== 'highlight') {
+        // For styles other than color/highlight insertion, require at least one non-empty selection
+        if (ranges.every(range => range.fromOffset === range.toOffset) && !isColorInsert) {
             console.warn("Text Styler: Selection required for toggle styles like", styleType);
             new Notice("Text Styler: Selection required for this style.");
             return;
         }
 
-        const originalContent = editor.getRange(from, to);
-        const segments = this.parseSelection(originalContent, from, editor);
+        this.toggleSpanStyle(editor, ranges, styleType, value);
+    }
 
-        // --- Nuanced check for value-based styles START ---
-        let isCurrentlyActive = false;
-        let hasDifferentValue = false;
-        let isSameValueActive = false;
 
-        // Perform detailed check only for styles where the value matters for toggling
-        if ((styleType === 'colored-underline' || styleType === 'color' || styleType === 'highlight' || styleType === 'circled') && value) {
-            const varToCheck = styleType === 'colored-underline' ? '--styler-underline-color'
-                             : styleType === 'color' ? '--styler-text-color'
-                             : styleType === 'highlight' ? '--styler-highlight-color'
-                             : '--styler-circle-color'; // Check circle color var
+    // Applies every style of the preset, or removes exactly those styles if all are already active
+    public togglePreset(editor: Editor, preset: StylePreset): void {
+        if (preset.styles.length === 0) {
+            new Notice(`Text Styler: Preset "${preset.name}" has no styles.`);
+            return;
+        }
 
-            for (const segment of segments) {
-                const currentVarValue = this.getCssVariableValue(segment.span, varToCheck);
-                const markerClass = this.classMap[styleType] ? `${CLASS_PREFIX}${this.classMap[styleType]}` : null; // Get potential marker class
+        const ranges = this.expandEmptyRanges(editor, this.getSelectionRanges(editor));
+        if (ranges.length === 0) return;
+        if (ranges.every(range => range.fromOffset === range.toOffset)) {
+            new Notice("Text Styler: Selection required for this style.");
+            return;
+        }
 
-                if (currentVarValue !== null) { // Variable exists
-                    isCurrentlyActive = true;
-                    if (currentVarValue.toLowerCase() === value.toLowerCase()) {
-                         isSameValueActive = true;
-                    } else {
-                         hasDifferentValue = true;
-                    }
-                } else if (markerClass && segment.span?.classList.includes(markerClass)) {
-                     // Class exists but variable missing -> Treat as active but needing modification
-                     isCurrentlyActive = true;
-                     hasDifferentValue = true; // Needs modification to add the variable
+        const regions = this.collectStyleRegions(editor, this.expandToAtomicConstructs(editor, ranges), true);
+        if (!regions) return;
+
+        const selectedPieces = this.getSelectedPieces(regions);
+        const isActive = preset.styles.every(style => !this.shouldApplyStyle(selectedPieces, style.type, style.value));
+
+        const replacements: RangeReplacement[] = regions.map(region => {
+            if (region.isCaret) {
+                return { range: region.range, text: null, selections: [{ anchor: 0, head: 0 }] };
+            }
+            return this.renderRegion(region, span => preset.styles.reduce<SegmentStyle | null>(
+                (style, presetStyle) => this.applyModificationToSegment(style, presetStyle.type, presetStyle.value, !isActive),
+                span
+            ));
+        });
+
+        this.applyReplacements(editor, replacements);
+    }
+
+
+    // Individual styles of the text at the cursor, with their colors
+    public getStylesAtCursor(editor: Editor): PresetStyle[] {
+        return this.getStylesOfSpan(this.getStyleAtCursor(editor));
+    }
+
+    // Effective style of the styler spans around the cursor (start of the main selection)
+    public getStyleAtCursor(editor: Editor): SegmentStyle | null {
+        const offset = editor.posToOffset(editor.getCursor('from'));
+        const chain = findSpanChainAt(parseSpanTree(editor.getValue()).children, offset);
+        return chain.length > 0 ? this.normalizeStyle(mergeSpanChain(chain)) : null;
+    }
+
+    // Replaces all styler styling of the selected text with exactly `style` (null strips it)
+    public applyStyle(editor: Editor, style: SegmentStyle | null): void {
+        const ranges = this.getSelectionRanges(editor);
+        if (ranges.every(range => range.fromOffset === range.toOffset)) return;
+
+        const regions = this.collectStyleRegions(editor, this.expandToAtomicConstructs(editor, ranges), true);
+        if (!regions) return;
+
+        const replacements: RangeReplacement[] = regions.map(region => {
+            if (region.isCaret) {
+                return { range: region.range, text: null, selections: [{ anchor: 0, head: 0 }] };
+            }
+            return this.renderRegion(region, () => this.normalizeStyle(style));
+        });
+
+        this.applyReplacements(editor, replacements);
+    }
+
+
+    public removeAllStyling(editor: Editor): void {
+         const ranges = this.expandEmptyRanges(editor, this.getSelectionRanges(editor));
+         if (ranges.length === 0) return;
+
+         const regions = this.collectStyleRegions(editor, ranges);
+         if (!regions) return;
+
+         const replacements: RangeReplacement[] = regions.map(region => {
+             if (region.isCaret) {
+                 return { range: region.range, text: null, selections: [{ anchor: 0, head: 0 }] }; // Keep cursors as they are
+             }
+             // Removes spans potentially created by this plugin, only from the selected text
+             return this.renderRegion(region, () => null);
+         });
+
+         this.applyReplacements(editor, replacements);
+    }
+
+    // --- Text API (for notes that are not open in an editor) ---
+
+    // Classes and variables of plain text given `styles`, e.g. to preview a preset
+    public buildStyle(styles: PresetStyle[]): SegmentStyle | null {
+        return styles.reduce<SegmentStyle | null>(
+            (style, presetStyle) => this.applyModificationToSegment(style, presetStyle.type, presetStyle.value, true),
+            null
+        );
+    }
+
+    // `text` wrapped in a new styler span carrying one style
+    public createStyledText(text: string, styleType: StyleType, value: string | null): string {
+        return this.createStyledSpan(text, styleType, value);
+    }
+
+    // Number of styled passages in `source` carrying `styleType` (with `value`, if given)
+    public countStyleMatches(source: string, styleType: StyleType, value: string | null): number {
+        return this.countOutermost(this.findMatchingSpans(parseSpanTree(source), styleType, value));
+    }
+
+    /**
+     * Lists every run of text in `source` per active style, in document order. A run
+     * spans consecutive text segments carrying the same style and color, so nested
+     * spans inside a highlighted passage do not break the passage apart.
+     */
+    public findStyledRuns(source: string): StyledRun[] {
+        const segments = flattenSpanTree(parseSpanTree(source));
+        const runs: StyledRun[] = [];
+        const openRuns = new Map<string, { run: StyledRun, lastIndex: number }>();
+
+        segments.forEach((segment, index) => {
+            this.getStylesOfSpan(segment.span).forEach(({ type: styleType, value }) => {
+                const key = `${styleType}|${value ? normalizeColor(value) : ''}`;
+
+                const open = openRuns.get(key);
+                if (open && open.lastIndex === index - 1) {
+                    open.run.end = segment.end;
+                    open.run.text += segment.text;
+                    open.lastIndex = index;
+                    return;
                 }
+                const run: StyledRun = { style: { type: styleType, value }, start: segment.start, end: segment.end, text: segment.text };
+                runs.push(run);
+                openRuns.set(key, { run, lastIndex: index });
+            });
+        });
+
+        return runs;
+    }
+
+    /**
+     * Rewrites the styler spans in `source` that carry `styleType` (with `value`, if given).
+     * Only the tags of those spans change, so nested spans keep their shape and the rest of
+     * the text is left byte for byte. Returns null if the text has unbalanced styler tags.
+     */
+    public replaceStyleInText(source: string, styleType: StyleType, value: string | null, action: StyleReplaceAction): { text: string, count: number } | null {
+        const result = this.findStyleReplacements(source, styleType, value, action);
+        if (!result) return null;
+
+        let text = "";
+        let lastEnd = 0;
+        result.edits.forEach(edit => {
+            text += source.substring(lastEnd, edit.start) + edit.text;
+            lastEnd = edit.end;
+        });
+        text += source.substring(lastEnd);
+
+        return { text, count: result.count };
+    }
+
+    // Same as replaceStyleInText for the note in `editor`, as one undoable change
+    public replaceStyleInEditor(editor: Editor, styleType: StyleType, value: string | null, action: StyleReplaceAction): number | null {
+        const result = this.findStyleReplacements(editor.getValue(), styleType, value, action);
+        if (!result) return null;
+        if (result.edits.length === 0) return 0;
+
+        editor.transaction({
+            changes: result.edits.map(({ start, end, text }) => ({ from: editor.offsetToPos(start), to: editor.offsetToPos(end), text })),
+        });
+        return result.count;
+    }
+
+    // New tags for every matching span, in document order; null if the tags are unbalanced
+    private findStyleReplacements(source: string, styleType: StyleType, value: string | null, action: StyleReplaceAction): { edits: { start: number, end: number, text: string }[], count: number } | null {
+        const tree = parseSpanTree(source);
+        if (!tree.isBalanced) return null;
+
+        const restyle = (span: SegmentStyle | null): SegmentStyle | null => {
+            if (action.kind === 'remove') {
+                return this.applyModificationToSegment(span, styleType, null, false);
+            }
+            if (action.kind === 'recolor') {
+                return this.applyModificationToSegment(span, styleType, action.color, true);
+            }
+            const valueVariable = this.variableMap[styleType];
+            const previousValue = valueVariable ? span?.variables[valueVariable] : undefined;
+            const removed = this.applyModificationToSegment(span, styleType, null, false);
+            return this.applyModificationToSegment(removed, action.styleType, action.color || previousValue || null, true);
+        };
+
+        const matches = this.findMatchingSpans(tree, styleType, value);
+        const edits: { start: number, end: number, text: string }[] = [];
+        matches.forEach(node => {
+            const style = restyle({ classList: node.classList, variables: node.variables });
+            edits.push({ start: node.openStart, end: node.openEnd, text: this.buildOpeningTag(style) });
+            // A span left without styles is unwrapped
+            if (!style) edits.push({ start: node.closeStart, end: node.closeEnd, text: '' });
+        });
+        edits.sort((a, b) => a.start - b.start);
+
+        return { edits, count: this.countOutermost(matches) };
+    }
+
+    // Closed styler spans whose own style carries `styleType` (with `value`, if given). Spans in code are literal text.
+    private findMatchingSpans(tree: SpanTree, styleType: StyleType, value: string | null): StylerSpanNode[] {
+        const codeRanges = findCodeRanges(tree.source);
+        const matches: StylerSpanNode[] = [];
+        const visit = (nodes: SpanTreeNode[]) => nodes.forEach(node => {
+            if (node.type !== 'span') return;
+            const isInCode = codeRanges.some(range => range.start <= node.openStart && node.openStart < range.end);
+            if (isInCode) return;
+            const segment: SelectionSegment = { text: '', start: 0, end: 0, spans: [node], span: { classList: node.classList, variables: node.variables } };
+            if (node.closeEnd !== -1 && this.isStyleActiveInSegments([segment], styleType, value)) matches.push(node);
+            visit(node.children);
+        });
+        visit(tree.children);
+        return matches;
+    }
+
+    // Matching spans nested in another match belong to the same passage
+    private countOutermost(matches: StylerSpanNode[]): number {
+        return matches.filter(node => {
+            for (let parent = node.parent; parent; parent = parent.parent) {
+                if (matches.includes(parent)) return false;
+            }
+            return true;
+        }).length;
+    }
+
+    // --- Style Engines ---
+
+    // HTML output: rewrites styler spans around the selected text
+    private toggleSpanStyle(editor: Editor, ranges: SelectionRange[], styleType: StyleType, value: string | null): void {
+        const isColorInsert = (styleType === 'color' || styleType === 'highlight') && !!value;
+
+        const regions = this.collectStyleRegions(editor, this.expandToAtomicConstructs(editor, ranges), true);
+        if (!regions) return;
+
+        // The toggle decision covers the selected text of every range
+        const shouldApply = this.shouldApplyStyle(this.getSelectedPieces(regions), styleType, value);
+
+        const replacements: RangeReplacement[] = regions.map(region => {
+            if (region.isCaret) {
+                if (!isColorInsert) {
+                    return { range: region.range, text: null, selections: [{ anchor: 0, head: 0 }] };
+                }
+                // Allow empty selection only for color/highlight insertion (using CSS variables)
+                const styledEmptySpan = this.createStyledSpan('', styleType, value);
+                const caretOffset = styledEmptySpan.indexOf('>') + 1;
+                return { range: region.range, text: styledEmptySpan, selections: [{ anchor: caretOffset, head: caretOffset }] };
+            }
+            return this.renderRegion(region, span => this.applyModificationToSegment(span, styleType, value, shouldApply));
+        });
+
+        this.applyReplacements(editor, replacements);
+    }
+
+    // Native Markdown output: adds or removes delimiters around the selected text
+    private toggleMarkdownStyle(editor: Editor, selectionRanges: SelectionRange[], styleType: MarkdownStyleType): void {
+        const docText = editor.getValue();
+        const mergedRanges = this.mergeMarkdownRanges(editor, this.splitRangesIntoLines(editor, selectionRanges), styleType);
+        const ranges = mergedRanges.map(({ range }) => range);
+        const wraps = ranges.map(range => range.fromOffset === range.toOffset ? null : findMarkdownWrap(docText, range.fromOffset, range.toOffset, styleType));
+        const styledWraps = wraps.filter((wrap): wrap is MarkdownWrap => wrap !== null);
+
+        // Text styled with an HTML span before switching to Markdown output is toggled off as a span
+        if (styledWraps.length > 0 && !styledWraps.some(wrap => isMarkdownStyleActive(wrap, styleType))) {
+            const styledRanges = ranges.filter(range => range.fromOffset !== range.toOffset);
+            const regions = this.collectStyleRegions(editor, styledRanges);
+            if (regions && this.isStyleActiveInSegments(this.getSelectedPieces(regions), styleType, null)) {
+                this.toggleSpanStyle(editor, styledRanges, styleType, null);
+                return;
             }
-        } else {
-             // Use general check for simple toggles or remove operations (value is null)
-             isCurrentlyActive = this.isStyleActiveInSegments(segments, styleType, value);
         }
 
+        const shouldApply = !(styledWraps.length > 0 && styledWraps.every(wrap => isMarkdownStyleActive(wrap, styleType)));
+        const marker = MARKDOWN_MARKERS[styleType];
+        let previousEnd = -1;
 
-        let shouldApply: boolean;
-        // Determine toggle action based on detailed check for value-based styles
-        if ((styleType === 'colored-underline' || styleType === 'color' || styleType === 'highlight' || styleType === 'circled') && value) {
-             if (isSameValueActive && !hasDifferentValue) {
-                 shouldApply = false; // Only the exact value is active -> Remove
-             } else {
-                 shouldApply = true; // Not active OR active with a different value -> Apply/Modify
-             }
-        } else {
-             // Default toggle behavior for simple styles or remove operations
-             shouldApply = !isCurrentlyActive;
+        const replacements: RangeReplacement[] = mergedRanges.map(({ range, caretOffsets }, index) => {
+            const wrap = wraps[index];
+            if (!wrap) {
+                // Empty selection: insert a pair of delimiters with the cursor between them
+                return { range, text: `${marker}${marker}`, selections: [{ anchor: marker.length, head: marker.length }] };
+            }
+            if (wrap.fromOffset < previousEnd) {
+                return { range, text: null, selections: [{ anchor: 0, head: range.toOffset - range.fromOffset }] }; // Shares delimiters with the previous selection
+            }
+            previousEnd = wrap.toOffset;
+
+            // Selections that already have the outcome are left alone, so their markers are not doubled
+            if (isMarkdownStyleActive(wrap, styleType) === shouldApply) {
+                const selections = caretOffsets.length > 0
+                    ? caretOffsets.map(caretOffset => ({ anchor: caretOffset - range.fromOffset, head: caretOffset - range.fromOffset }))
+                    : [{ anchor: 0, head: range.toOffset - range.fromOffset }];
+                return { range, text: null, selections };
+            }
+
+            const { text, contentStart, contentEnd } = shouldApply ? applyMarkdownStyle(wrap, styleType) : removeMarkdownStyle(wrap, styleType);
+            const wrapRange = this.toSelectionRange(editor, wrap.fromOffset, wrap.toOffset);
+            if (caretOffsets.length > 0) {
+                return {
+                    range: wrapRange,
+                    text,
+                    selections: caretOffsets.map(caretOffset => {
+                        const caret = Math.max(contentStart, Math.min(contentStart + caretOffset - range.fromOffset, contentEnd));
+                        return { anchor: caret, head: caret };
+                    }),
+                };
+            }
+            return { range: wrapRange, text, selections: [{ anchor: contentStart, head: contentEnd }] };
+        });
+
+        this.applyReplacements(editor, replacements);
+    }
+
+    /**
+     * Snaps selections to the delimiters at their edges, then merges the ones that
+     * overlap or touch, since they would otherwise wrap the same text twice. A merged
+     * range keeps the cursors of expanded empty selections, unless it covers a real one.
+     */
+    private mergeMarkdownRanges(editor: Editor, ranges: SelectionRange[], styleType: MarkdownStyleType): { range: SelectionRange, caretOffsets: number[] }[] {
+        const docText = editor.getValue();
+        const snapped = ranges
+            .map(range => {
+                if (range.fromOffset === range.toOffset) return range;
+                const { start, end } = snapToDelimiters(docText, range.fromOffset, range.toOffset, styleType);
+                return { ...this.toSelectionRange(editor, start, end), caretOffset: range.caretOffset };
+            })
+            .sort((a, b) => a.fromOffset - b.fromOffset);
+
+        const merged: { range: SelectionRange, caretOffsets: number[], hasSelection: boolean }[] = [];
+        snapped.forEach(range => {
+            const last = merged[merged.length - 1];
+            const isEmpty = range.fromOffset === range.toOffset;
+            if (last && !isEmpty && last.range.fromOffset !== last.range.toOffset && range.fromOffset <= last.range.toOffset) {
+                if (range.toOffset > last.range.toOffset) last.range = this.toSelectionRange(editor, last.range.fromOffset, range.toOffset);
+                if (range.caretOffset !== undefined) last.caretOffsets.push(range.caretOffset);
+                last.hasSelection = last.hasSelection || range.caretOffset === undefined;
+                return;
+            }
+            merged.push({
+                range,
+                caretOffsets: range.caretOffset !== undefined ? [range.caretOffset] : [],
+                hasSelection: !isEmpty && range.caretOffset === undefined,
+            });
+        });
+
+        return merged.map(({ range, caretOffsets, hasSelection }) => ({ range, caretOffsets: hasSelection ? [] : caretOffsets }));
+    }
+
+    // Delimiters cannot span blocks, so multi-line selections are styled line by line (without block prefixes)
+    private splitRangesIntoLines(editor: Editor, ranges: SelectionRange[]): SelectionRange[] {
+        const docText = editor.getValue();
+        const lineRanges: SelectionRange[] = [];
+        ranges.forEach(range => {
+            const selected = docText.substring(range.fromOffset, range.toOffset);
+            if (!selected.includes('\n')) {
+                lineRanges.push(range);
+                return;
+            }
+            const prefixRanges = findBlockPrefixRanges(docText, range.fromOffset, range.toOffset);
+            let lineStart = range.fromOffset;
+            selected.split('\n').forEach(line => {
+                const lineEnd = lineStart + line.length;
+                const prefix = prefixRanges.find(prefixRange => prefixRange.start <= lineStart && prefixRange.end > lineStart);
+                const fromOffset = prefix ? Math.min(prefix.end, lineEnd) : lineStart;
+                if (docText.substring(fromOffset, lineEnd).trim().length > 0) {
+                    lineRanges.push(this.toSelectionRange(editor, fromOffset, lineEnd));
+                }
+                lineStart = lineEnd + 1;
+            });
+        });
+        return lineRanges;
+    }
+
+    private getSelectedPieces(regions: StyleRegion[]): StylePiece[] {
+        return regions.reduce<StylePiece[]>((acc, region) => acc.concat(region.pieces.filter(piece => piece.selectionIndices.length > 0)), []);
+    }
+
+    // --- Selection Helpers ---
+
+    // Collects every selection as a normalized (from <= to) range, sorted by document order
+    private getSelectionRanges(editor: Editor): SelectionRange[] {
+        return editor.listSelections()
+            .map(selection => {
+                const anchorOffset = editor.posToOffset(selection.anchor);
+                const headOffset = editor.posToOffset(selection.head);
+                return this.toSelectionRange(editor, Math.min(anchorOffset, headOffset), Math.max(anchorOffset, headOffset));
+            })
+            .sort((a, b) => a.fromOffset - b.fromOffset);
+    }
+
+    /**
+     * With "Style word at cursor" enabled, an empty selection expands to the styler span
+     * around the cursor or, outside any span, to the word under the cursor. The original
+     * cursor position is remembered so it can be restored after styling.
+     */
+    private expandEmptyRanges(editor: Editor, ranges: SelectionRange[]): SelectionRange[] {
+        if (!this.plugin.settings.expandEmptySelection || ranges.every(range => range.fromOffset !== range.toOffset)) {
+            return ranges;
         }
-        // --- Nuanced check END ---
 
+        const documentTree = parseSpanTree(editor.getValue());
+        return ranges
+            .map(range => {
+                if (range.fromOffset !== range.toOffset) return range;
+
+                const chain = findSpanChainAt(documentTree.children, range.fromOffset);
+                const span = chain[chain.length - 1];
+                if (span && span.openEnd < span.closeStart) {
+                    return { ...this.toSelectionRange(editor, span.openEnd, span.closeStart), caretOffset: range.fromOffset };
+                }
+
+                const word = editor.wordAt(range.from);
+                if (!word) return range;
+                const fromOffset = editor.posToOffset(word.from);
+                const toOffset = editor.posToOffset(word.to);
+                if (fromOffset === toOffset) return range;
+                return { ...this.toSelectionRange(editor, fromOffset, toOffset), caretOffset: range.fromOffset };
+            })
+            .sort((a, b) => a.fromOffset - b.fromOffset);
+    }
+
+    // Widens selections that cut through a wikilink or embed to cover it completely
+    private expandToAtomicConstructs(editor: Editor, ranges: SelectionRange[]): SelectionRange[] {
+        const docText = editor.getValue();
+        return ranges.map(range => {
+            if (range.fromOffset === range.toOffset) return range;
+            const atomicRanges = findAtomicRanges(docText, range.fromOffset, range.toOffset);
+            if (atomicRanges.length === 0) return range;
+            const fromOffset = Math.min(range.fromOffset, ...atomicRanges.map(atomic => atomic.start));
+            const toOffset = Math.max(range.toOffset, ...atomicRanges.map(atomic => atomic.end));
+            return { ...this.toSelectionRange(editor, fromOffset, toOffset), caretOffset: range.caretOffset };
+        });
+    }
+
+
+    private toSelectionRange(editor: Editor, fromOffset: number, toOffset: number): SelectionRange {
+        return {
+            from: editor.offsetToPos(fromOffset),
+            to: editor.offsetToPos(toOffset),
+            fromOffset,
+            toOffset,
+        };
+    }
+
+    /**
+     * Groups the selections into regions to rewrite. A selection that starts or ends inside a
+     * styler span is widened to that whole span, so its tags are rewritten together with the
+     * selected text. Selections whose widened regions overlap share a region.
+     * With `protectMarkdown`, code, links and block syntax inside the selection stay unselected,
+     * so every safe run of text is wrapped separately.
+     * Returns null (after telling the user) if a region contains unbalanced styler tags.
+     */
+    private collectStyleRegions(editor: Editor, ranges: SelectionRange[], protectMarkdown = false): StyleRegion[] | null {
+        const documentTree = parseSpanTree(editor.getValue());
+        const regions: StyleRegion[] = [];
+        const pending: { fromOffset: number, toOffset: number, selectionIndices: number[], isCaret: boolean }[] = [];
+
+        ranges.forEach((range, index) => {
+            const isCaret = range.fromOffset === range.toOffset;
+            const bounds = isCaret
+                ? { fromOffset: range.fromOffset, toOffset: range.toOffset }
+                : this.expandToAdjacentSpans(documentTree.children, this.expandToEnclosingSpans(documentTree.children, range.fromOffset, range.toOffset));
+
+            const current = pending[pending.length - 1];
+            if (current && bounds.fromOffset < current.toOffset) {
+                // Overlaps the previous region: a caret is absorbed, a selection widens the region
+                if (isCaret) return;
+                if (current.isCaret) current.selectionIndices = [];
+                current.fromOffset = Math.min(current.fromOffset, bounds.fromOffset);
+                current.toOffset = Math.max(current.toOffset, bounds.toOffset);
+                current.selectionIndices.push(index);
+                current.isCaret = false;
+                return;
+            }
+            pending.push({ ...bounds, selectionIndices: [index], isCaret });
+        });
+
+        for (const { fromOffset, toOffset, selectionIndices, isCaret } of pending) {
+            const range = this.toSelectionRange(editor, fromOffset, toOffset);
+            if (isCaret) {
+                regions.push({ range, pieces: [], selectionIndices, isCaret, caretOffsets: {} });
+                continue;
+            }
+
+            const parsed = this.parseSelection(editor.getRange(range.from, range.to));
+            if (!parsed.tree.isBalanced) {
+                new Notice("Text Styler: Selection contains unbalanced styler tags. Extend it to include both the opening and closing tag.");
+                return null;
+            }
+
+            // Selection bounds relative to the region start
+            const selectedBounds = selectionIndices.map(index => ({
+                index,
+                start: ranges[index].fromOffset - fromOffset,
+                end: ranges[index].toOffset - fromOffset,
+            }));
+            // Cursors of expanded empty selections, relative to the region start
+            const caretOffsets: Record<number, number> = {};
+            selectionIndices.forEach(index => {
+                const caretOffset = ranges[index].caretOffset;
+                if (caretOffset !== undefined) caretOffsets[index] = caretOffset - fromOffset;
+            });
+            const protectedBounds = protectMarkdown
+                ? findProtectedRanges(editor, fromOffset, toOffset).map(({ start, end }) => ({ start: start - fromOffset, end: end - fromOffset }))
+                : [];
+            regions.push({ range, pieces: this.splitSegments(parsed.segments, selectedBounds, protectedBounds), selectionIndices, isCaret, caretOffsets });
+        }
 
-        let modifiedContent = "";
+        return regions;
+    }
+
+    // Widens [fromOffset, toOffset] until no closed styler span is cut by either boundary
+    private expandToEnclosingSpans(nodes: SpanTreeNode[], fromOffset: number, toOffset: number): { fromOffset: number, toOffset: number } {
+        let bounds = { fromOffset, toOffset };
+        nodes.forEach(node => {
+            if (node.type !== 'span' || node.closeEnd === -1) return;
+            const intersects = node.openStart < toOffset && node.closeEnd > fromOffset;
+            if (!intersects) return;
+
+            const isContained = node.openStart >= fromOffset && node.closeEnd <= toOffset;
+            if (!isContained) {
+                // Ancestors are handled before their children, so the outermost cut span wins
+                bounds = {
+                    fromOffset: Math.min(bounds.fromOffset, node.openStart),
+                    toOffset: Math.max(bounds.toOffset, node.closeEnd),
+                };
+            }
+            const inner = this.expandToEnclosingSpans(node.children, fromOffset, toOffset);
+            bounds = {
+                fromOffset: Math.min(bounds.fromOffset, inner.fromOffset),
+                toOffset: Math.max(bounds.toOffset, inner.toOffset),
+            };
+        });
+        return bounds;
+    }
+
+    // Includes styler spans that touch the region, so restyled text can merge with identical neighbours
+    private expandToAdjacentSpans(nodes: SpanTreeNode[], bounds: { fromOffset: number, toOffset: number }): { fromOffset: number, toOffset: number } {
+        let { fromOffset, toOffset } = bounds;
+        const visit = (children: SpanTreeNode[]) => children.forEach(node => {
+            if (node.type !== 'span' || node.closeEnd === -1) return;
+            if (node.closeEnd === bounds.fromOffset) fromOffset = Math.min(fromOffset, node.openStart);
+            if (node.openStart === bounds.toOffset) toOffset = Math.max(toOffset, node.closeEnd);
+            visit(node.children);
+        });
+        visit(nodes);
+        return { fromOffset, toOffset };
+    }
+
+    // Splits segments at the selection bounds into before / selected / after pieces.
+    // Protected parts of a selection become unselected pieces of their own.
+    private splitSegments(segments: SelectionSegment[], selectedBounds: { index: number, start: number, end: number }[], protectedBounds: OffsetRange[] = []): StylePiece[] {
+        const pieces: StylePiece[] = [];
         segments.forEach(segment => {
-            const { text, span } = segment;
-            modifiedContent += this.applyModificationToSegment(text, span, styleType, value, shouldApply);
+            const cuts = new Set<number>([segment.start, segment.end]);
+            [...selectedBounds, ...protectedBounds].forEach(({ start, end }) => {
+                if (start > segment.start && start < segment.end) cuts.add(start);
+                if (end > segment.start && end < segment.end) cuts.add(end);
+            });
+            // Line breaks become pieces of their own, so no span crosses a line
+            for (let i = segment.text.indexOf('\n'); i !== -1; i = segment.text.indexOf('\n', i + 1)) {
+                cuts.add(segment.start + i);
+                cuts.add(segment.start + i + 1);
+            }
+            const sortedCuts = [...cuts].sort((a, b) => a - b);
+
+            for (let i = 0; i < sortedCuts.length - 1; i++) {
+                const start = sortedCuts[i];
+                const end = sortedCuts[i + 1];
+                const isProtected = protectedBounds.some(bound => bound.start <= start && bound.end >= end);
+                // Several selections can cover the same piece, e.g. two cursors expanded to one word
+                const covering = isProtected ? [] : selectedBounds.filter(bound => bound.start <= start && bound.end >= end);
+                pieces.push({
+                    ...segment,
+                    text: segment.text.substring(start - segment.start, end - segment.start),
+                    start,
+                    end,
+                    selectionIndices: covering.map(bound => bound.index),
+                });
+            }
         });
+        return pieces;
+    }
 
-        editor.replaceRange(modifiedContent, from, to);
+    /**
+     * Re-emits a region: selected pieces get their style from `restyle`, the rest keep their own.
+     * Consecutive pieces that end up with identical classes and variables share one span,
+     * but spans always close at line breaks.
+     */
+    private renderRegion(region: StyleRegion, restyle: (span: SegmentStyle | null) => SegmentStyle | null): RangeReplacement {
+        const { text, selectedOffsets } = this.renderPieces(region.pieces, restyle, region.caretOffsets);
+        const selections = region.selectionIndices.map(index => selectedOffsets[index] || { anchor: 0, head: 0 });
+        return { range: region.range, text, selections };
     }
 
+    // Renders pieces to text and reports where the selected pieces (or restored cursors) ended up
+    private renderPieces(
+        pieces: StylePiece[],
+        restyle: (span: SegmentStyle | null) => SegmentStyle | null,
+        caretOffsets: Record<number, number> = {}
+    ): { text: string, selectedOffsets: Record<number, { anchor: number, head: number }> } {
+        const styled = pieces.map(piece => ({
+            text: piece.text,
+            start: piece.start,
+            end: piece.end,
+            selectionIndices: piece.selectionIndices,
+            // Inline HTML cannot span blocks: every line gets its own balanced span
+            style: piece.text === '\n' ? null
+                : piece.selectionIndices.length > 0 ? restyle(piece.span) : this.normalizeStyle(piece.span),
+        }));
+
+        let text = "";
+        const selectedOffsets: Record<number, { anchor: number, head: number }> = {};
+        let i = 0;
+        while (i < styled.length) {
+            let j = i;
+            while (j + 1 < styled.length && this.isSameStyle(styled[j + 1].style, styled[i].style)) j++;
+
+            const openingTag = this.buildOpeningTag(styled[i].style);
+            text += openingTag;
+            for (let k = i; k <= j; k++) {
+                const { selectionIndices, start, end } = styled[k];
+                selectionIndices.forEach(selectionIndex => {
+                    const caret = caretOffsets[selectionIndex];
+                    const existing = selectedOffsets[selectionIndex];
+                    if (caret === undefined) {
+                        selectedOffsets[selectionIndex] = { anchor: existing ? existing.anchor : text.length, head: text.length + styled[k].text.length };
+                    } else if (!existing && caret >= start && caret <= end) {
+                        // Put the cursor back where it was inside the expanded word or span
+                        const caretPosition = text.length + caret - start;
+                        selectedOffsets[selectionIndex] = { anchor: caretPosition, head: caretPosition };
+                    }
+                });
+                text += styled[k].text;
+            }
+            if (openingTag) text += '</span>';
+            i = j + 1;
+        }
 
-    public removeAllStyling(editor: Editor): void {
-         const selection = editor.listSelections()[0];
-         if (!selection) return;
-         const from = selection.anchor.line < selection.head.line || (selection.anchor.line === selection.head.line && selection.anchor.ch <= selection.head.ch) ? selection.anchor : selection.head;
-         const to = from === selection.anchor ? selection.head : selection.anchor;
-
-         const originalContent = editor.getRange(from, to);
-         // Removes spans potentially created by this plugin
-         let modifiedContent = "";
-         const segments = this.parseSelection(originalContent, from, editor);
-         segments.forEach(segment => {
-              modifiedContent += segment.text; // Just keep the text
-         });
+        return { text, selectedOffsets };
+    }
+
+    // Applies all replacements as a single transaction. Changes are expressed against the
+    // original document, while the new selections are shifted by the length delta of every
+    // earlier replacement so they keep covering the rewritten text.
+    private applyReplacements(editor: Editor, replacements: RangeReplacement[]): void {
+        const changes: EditorChange[] = [];
+        const selectionOffsets: { anchor: number, head: number }[] = [];
+        let delta = 0;
+
+        replacements.forEach(({ range, text, selections }) => {
+            const newFrom = range.fromOffset + delta;
+            selections.forEach(({ anchor, head }) => selectionOffsets.push({ anchor: newFrom + anchor, head: newFrom + head }));
+            if (text === null) return;
+
+            changes.push({ from: range.from, to: range.to, text });
+            delta += text.length - (range.toOffset - range.fromOffset);
+        });
+
+        if (changes.length === 0) return;
 
-         editor.replaceRange(modifiedContent, from, to);
+        editor.transaction({ changes });
+        // Offsets only become valid positions once the changes are applied
+        editor.setSelections(selectionOffsets.map(({ anchor, head }) => ({
+            anchor: editor.offsetToPos(anchor),
+            head: editor.offsetToPos(head),
+        })));
     }
 
     // --- Private Helpers ---
@@ -129,28 +716,63 @@ export class StyleManager {
         'colored-underline': StyleClasses.COLORED_UNDERLINE // Marker class
     };
 
+    // CSS variable holding the value of each value-based style
+    private readonly variableMap: Partial<Record<StyleType, string>> = {
+        'color': '--styler-text-color',
+        'highlight': '--styler-highlight-color',
+        'colored-underline': '--styler-underline-color',
+        'circled': '--styler-circle-color',
+    };
+
+
+    // Decides whether the style should be applied (true) or removed (false) across all segments
+    private shouldApplyStyle(segments: SelectionSegment[], styleType: StyleType, value: string | null): boolean {
+        // --- Nuanced check for value-based styles START ---
+        let hasDifferentValue = false;
+        let isSameValueActive = false;
+
+        // Perform detailed check only for styles where the value matters for toggling
+        if ((styleType === 'colored-underline' || styleType === 'color' || styleType === 'highlight' || styleType === 'circled') && value) {
+            const varToCheck = styleType === 'colored-underline' ? '--styler-underline-color'
+                             : styleType === 'color' ? '--styler-text-color'
+                             : styleType === 'highlight' ? '--styler-highlight-color'
+                             : '--styler-circle-color'; // Check circle color var
+
+            for (const segment of segments) {
+                const currentVarValue = this.getCssVariableValue(segment.span, varToCheck);
+                const markerClass = this.classMap[styleType] ? `${CLASS_PREFIX}${this.classMap[styleType]}` : null; // Get potential marker class
+
+                if (currentVarValue !== null) { // Variable exists
+                    if (isSameColor(currentVarValue, value)) {
+                         isSameValueActive = true;
+                    } else {
+                         hasDifferentValue = true;
+                    }
+                } else if (markerClass && segment.span?.classList.includes(markerClass)) {
+                     // Class exists but variable missing -> Treat as active but needing modification
+                     hasDifferentValue = true; // Needs modification to add the variable
+                }
+            }
+
+            // Only the exact value is active -> Remove; otherwise Apply/Modify
+            return !(isSameValueActive && !hasDifferentValue);
+        }
+        // --- Nuanced check END ---
+
+        // Default toggle behavior for simple styles or remove operations (value is null)
+        return !this.isStyleActiveInSegments(segments, styleType, value);
+    }
+
 
     private applyModificationToSegment(
-        text: string,
-        spanInfo: SelectionSegment['span'],
+        spanInfo: SegmentStyle | null,
         styleType: StyleType,
         value: string | null, // Value for color, highlight, colored-underline, circle color
         shouldApply: boolean
-    ): string {
+    ): SegmentStyle | null {
         let currentClasses = spanInfo ? [...spanInfo.classList] : [];
-        let currentCssVariables: Record<string, string> = {};
-
-        // Populate cssVariables accurately from existing inline style
-        if (spanInfo?.startTag) {
-            const styleAttr = spanInfo.startTag.match(/style="([^"]*)"/i)?.[1] || '';
-            styleAttr.split(';').forEach(part => {
-                const [key, val] = part.split(':');
-                const trimmedKey = key?.trim();
-                if (trimmedKey?.startsWith('--styler-')) {
-                    currentCssVariables[trimmedKey] = val?.trim() || '';
-                }
-            });
-        }
+        // Effective variables of the whole enclosing span chain, so nested styling is preserved
+        const currentCssVariables: Record<string, string> = spanInfo ? { ...spanInfo.variables } : {};
 
         const targetClass = (styleType in this.classMap) ? `${CLASS_PREFIX}${this.classMap[styleType]}` : null;
 
@@ -238,29 +860,46 @@ export class StyleManager {
         }
 
 
-        // --- Reconstruct Span ---
-        const variableString = Object.entries(currentCssVariables)
+        return this.normalizeStyle({ classList: currentClasses, variables: currentCssVariables });
+    }
+
+    // Drops duplicate classes; a style without classes or variables means plain text
+    private normalizeStyle(style: SegmentStyle | null): SegmentStyle | null {
+        if (!style) return null;
+        const classList = [...new Set(style.classList)].filter(Boolean);
+        const variables = { ...style.variables };
+        if (classList.length === 0 && Object.keys(variables).length === 0) return null;
+        return { classList, variables };
+    }
+
+    private isSameStyle(a: SegmentStyle | null, b: SegmentStyle | null): boolean {
+        if (!a || !b) return a === b;
+        if (a.classList.length !== b.classList.length || !a.classList.every(cls => b.classList.includes(cls))) return false;
+        const aKeys = Object.keys(a.variables);
+        return aKeys.length === Object.keys(b.variables).length && aKeys.every(key => a.variables[key] === b.variables[key]);
+    }
+
+    // --- Reconstruct Span ---
+    private buildOpeningTag(style: SegmentStyle | null): string {
+        if (!style) return '';
+        const variableString = Object.entries(style.variables)
                                 .map(([k, v]: [string, string]) => `${k}: ${v};`)
                                 .join(' ');
         const styleAttrValue = variableString.trim(); // Only variables go in style now
 
-        const uniqueClasses = [...new Set(currentClasses)].filter(Boolean);
-        const hasClasses = uniqueClasses.length > 0;
+        const hasClasses = style.classList.length > 0;
         const hasStyles = styleAttrValue.length > 0;
+        if (!hasClasses && !hasStyles) return '';
 
-        if (hasClasses || hasStyles) {
-            let openingTag = '<span';
-            if (hasClasses) {
-                 openingTag += ` class="${uniqueClasses.join(' ')}"`;
-            }
-            if (hasStyles) {
-                openingTag += ` style="${styleAttrValue}"`;
-            }
-            openingTag += '>';
-            return `${openingTag}${text}</span>`;
-        } else {
-            return text;
+        let openingTag = '<span';
+        if (hasClasses) {
+             openingTag += ` class="${style.classList.join(' ')}"`;
+        }
+        if (hasStyles) {
+            openingTag += ` style="${styleAttrValue}"`;
         }
+        openingTag += '>';
+        return openingTag;
     }
 
 
@@ -284,7 +923,7 @@ export class StyleManager {
                      const varValue = this.getCssVariableValue(segment.span, targetVar);
                      if (varValue !== null) { // Variable exists
                          if (value) { // Checking specific value
-                             if (varValue.toLowerCase() === value.toLowerCase()) {
+                             if (isSameColor(varValue, value)) {
                                  isVarActive = true;
                              }
                          } else { // Just checking existence
@@ -314,100 +953,38 @@ export class StyleManager {
         return false;
     }
 
-    // Helper to check for CSS Variable existence in the style attribute
+    // Splits an effective span style into its individual styles and their colors
+    private getStylesOfSpan(spanInfo: SelectionSegment['span']): PresetStyle[] {
+        if (!spanInfo) return [];
+        const segment: SelectionSegment = { text: '', start: 0, end: 0, spans: [], span: spanInfo };
+        return (Object.keys(this.classMap) as StyleType[])
+            .filter(styleType => this.isStyleActiveInSegments([segment], styleType, null))
+            .map(styleType => {
+                const valueVariable = this.variableMap[styleType];
+                return { type: styleType, value: valueVariable ? this.getCssVariableValue(spanInfo, valueVariable) : null };
+            });
+    }
+
+    // Helper to check for CSS Variable existence on the effective span style
     private hasCssVariable(spanInfo: SelectionSegment['span'], varName: string): boolean {
-        if (!spanInfo?.startTag) return false;
-        const styleAttr = spanInfo.startTag.match(/style="([^"]*)"/i)?.[1] || '';
-        const regex = new RegExp(`(^|;)\\s*${varName}\\s*:`);
-        return regex.test(styleAttr);
+        return !!spanInfo && varName in spanInfo.variables;
     }
 
-    // Helper to get CSS Variable value from the style attribute
+    // Helper to get CSS Variable value from the effective span style
     private getCssVariableValue(spanInfo: SelectionSegment['span'], varName: string): string | null {
-         if (!spanInfo?.startTag) return null;
-         const styleAttr = spanInfo.startTag.match(/style="([^"]*)"/i)?.[1] || '';
-         const regex = new RegExp(`${varName}\\s*:\\s*([^;]+)`);
-         const match = styleAttr.match(regex);
-         return match && match[1] ? match[1].trim() : null;
+         const value = spanInfo?.variables[varName];
+         return value ? value.trim() : null;
     }
 
     // Creates a new span tag string (using CSS variable approach)
-    private createStyledSpan(text: string, styleType: StyleType, value: string | null, existingSpanInfo: SelectionSegment['span']): string {
-        // Pass null for existingSpanInfo to create fresh span
-        return this.applyModificationToSegment(text, null, styleType, value, true);
-    }
-
-    // --- Parsing Logic (Simplified) ---
-    private parseSelection(selectedText: string, from: EditorPosition, editor: Editor): SelectionSegment[] {
-        const segments: SelectionSegment[] = [];
-        let currentIndex = 0;
-        const len = selectedText.length;
-        const tagRegex = /<\/?span[^>]*>/gi;
-        let match;
-        let currentSpanInfo: SelectionSegment['span'] | null = null;
-        while (currentIndex < len) {
-             const remainingText = selectedText.substring(currentIndex);
-             tagRegex.lastIndex = 0;
-             match = tagRegex.exec(remainingText);
-             const tagStart = match ? match.index : -1;
-             const textEnd = (tagStart === -1) ? len : currentIndex + tagStart;
-             if (textEnd > currentIndex) {
-                 segments.push({
-                     text: selectedText.substring(currentIndex, textEnd),
-                     start: currentIndex,
-                     end: textEnd,
-                     span: currentSpanInfo
-                 });
-             }
-             if (match) {
-                 const tagText = match[0];
-                 const tagActualStart = currentIndex + tagStart;
-                 const tagActualEnd = tagActualStart + tagText.length;
-                 if (tagText.startsWith('</span')) {
-                     currentSpanInfo = null;
-                 } else {
-                     const classList = this.extractClasses(tagText);
-                     const style = this.extractStyles(tagText); // Simple parse for segment context
-                     currentSpanInfo = {
-                         startTag: tagText,
-                         startTagOffset: tagActualStart,
-                         endTagOffset: -1, // Not accurately determined by this parser
-                         classList,
-                         style,
-                     };
-                 }
-                 currentIndex = tagActualEnd;
-             } else {
-                 currentIndex = len;
-             }
-        }
-        if (segments.length === 0 && selectedText.length > 0) {
-            segments.push({
-                text: selectedText,
-                start: 0,
-                end: selectedText.length,
-                span: null
-            });
-        }
-        return segments;
-    }
-    private extractClasses(tag: string): string[] {
-        const classMatch = tag.match(/class="([^"]*)"/i);
-        return classMatch && classMatch[1] ? classMatch[1].split(' ').filter(Boolean) : [];
-    }
-    // Note: This simple parsing is primarily used to get context for segmentation.
-    // applyModificationToSegment re-parses the style attribute more carefully for variables.
-    private extractStyles(tag: string): Record<string, string> {
-        const styleMatch = tag.match(/style="([^"]*)"/i);
-        const styles: Record<string, string> = {};
-        if (styleMatch && styleMatch[1]) {
-            styleMatch[1].split(';').forEach(stylePart => {
-                const [key, value] = stylePart.split(':');
-                if (key && value) {
-                    styles[key.trim()] = value.trim();
-                }
-            });
-        }
-        return styles;
+    private createStyledSpan(text: string, styleType: StyleType, value: string | null): string {
+        const openingTag = this.buildOpeningTag(this.applyModificationToSegment(null, styleType, value, true));
+        return openingTag ? `${openingTag}${text}</span>` : text;
+    }
+
+    // --- Parsing Logic ---
+    private parseSelection(selectedText: string): ParsedSelection {
+        const tree = parseSpanTree(selectedText);
+        return { tree, segments: flattenSpanTree(tree) };
     }
 }
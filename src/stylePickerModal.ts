@@ -0,0 +1,177 @@
+import { App, Editor, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import TextStyler from "./main";
+import { STYLE_TYPE_NAMES, VALUE_STYLE_TYPES } from "./constants";
+import { ColorLabel, PresetStyle, StyleType } from "./types";
+
+const PREVIEW_TEXT = "Aa";
+
+interface StyleAction {
+    name: string;
+    preview: PresetStyle[]; // Styles shown in the preview, empty for remove actions
+    apply: (editor: Editor) => void;
+}
+
+// Suggestion selection of SuggestModal that the installed API typings do not declare
+interface SuggestModalInternals {
+    selectActiveSuggestion?: (event: KeyboardEvent) => void;
+    chooser?: { useSelectedItem?: (event: KeyboardEvent) => void };
+}
+
+/**
+ * Searchable list of every style action: styles, slot and favorite colors,
+ * presets and removals. Shift+Enter or Shift+click applies an action and keeps
+ * the picker open, so several styles can be chained.
+ */
+export class StylePickerModal extends FuzzySuggestModal<StyleAction> {
+    private plugin: TextStyler;
+    private editor: Editor;
+
+    constructor(app: App, plugin: TextStyler, editor: Editor) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+
+        this.setPlaceholder("Search styles, colors and presets...");
+        this.setInstructions([
+            { command: "↑↓", purpose: "to navigate" },
+            { command: "↵", purpose: "to apply" },
+            { command: "shift ↵", purpose: "to apply and keep open" },
+            { command: "esc", purpose: "to dismiss" },
+        ]);
+
+        this.scope.register(['Shift'], 'Enter', (event: KeyboardEvent) => this.selectActive(event));
+    }
+
+    getItems(): StyleAction[] {
+        return [
+            ...this.getStyleActions(),
+            ...this.getSlotActions('text'),
+            ...this.getSlotActions('highlight'),
+            ...this.getFavoriteActions('text'),
+            ...this.getFavoriteActions('highlight'),
+            ...this.getPresetActions(),
+            ...this.getRemoveActions(),
+        ];
+    }
+
+    getItemText(action: StyleAction): string {
+        return action.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<StyleAction>, el: HTMLElement) {
+        el.addClass('styler-picker-item');
+        const previewEl = el.createSpan({ text: PREVIEW_TEXT, cls: 'styler-picker-preview' });
+        const style = this.plugin.styleManager.buildStyle(match.item.preview);
+        if (style) {
+            previewEl.addClasses(style.classList);
+            Object.entries(style.variables).forEach(([name, value]) => previewEl.style.setProperty(name, value));
+        } else {
+            previewEl.addClass('is-plain');
+        }
+        super.renderSuggestion(match, el.createDiv({ cls: 'styler-picker-name' }));
+    }
+
+    /**
+     * Hands Shift+Enter to selectSuggestion like Enter, keeping the Shift key. Obsidian
+     * 1.7.2 made selectActiveSuggestion public; older versions only have the internal
+     * chooser, which is checked before use. Without either, Shift+Enter acts as Enter.
+     */
+    private selectActive(event: KeyboardEvent): boolean {
+        const modal = this as unknown as SuggestModalInternals;
+        if (typeof modal.selectActiveSuggestion === 'function') {
+            modal.selectActiveSuggestion(event);
+        } else if (typeof modal.chooser?.useSelectedItem === 'function') {
+            modal.chooser.useSelectedItem(event);
+        } else {
+            this.inputEl.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+        }
+        return false;
+    }
+
+    // Shift keeps the picker open to chain several styles
+    selectSuggestion(match: FuzzyMatch<StyleAction>, evt: MouseEvent | KeyboardEvent) {
+        if (!evt.shiftKey) {
+            super.selectSuggestion(match, evt);
+            return;
+        }
+        this.onChooseItem(match.item);
+    }
+
+    onChooseItem(action: StyleAction) {
+        action.apply(this.editor);
+    }
+
+    private getStyleActions(): StyleAction[] {
+        return (Object.keys(STYLE_TYPE_NAMES) as StyleType[]).map(styleType => {
+            if (!VALUE_STYLE_TYPES.includes(styleType)) {
+                return {
+                    name: `Toggle ${STYLE_TYPE_NAMES[styleType]}`,
+                    preview: [{ type: styleType, value: null }],
+                    apply: (editor: Editor) => this.plugin.styleManager.toggleStyle(editor, styleType, null),
+                };
+            }
+            // Value styles use the current slot color, as their commands do
+            const slotType = styleType === 'highlight' ? 'highlight' : 'text';
+            const color = this.getCurrentColor(slotType);
+            return {
+                name: `${STYLE_TYPE_NAMES[styleType]} (Current Slot ${this.describeColor(color, this.plugin.getColorLabel(slotType, color))})`,
+                preview: [{ type: styleType, value: color }],
+                apply: (editor: Editor) => this.plugin.styleManager.toggleStyle(editor, styleType, this.getCurrentColor(slotType)),
+            };
+        });
+    }
+
+    private getSlotActions(slotType: 'text' | 'highlight'): StyleAction[] {
+        const styleType: StyleType = slotType === 'text' ? 'color' : 'highlight';
+        const colors = slotType === 'text' ? this.plugin.settings.textColors : this.plugin.settings.highlightColors;
+        return colors.map((color, index) => ({
+            name: `${STYLE_TYPE_NAMES[styleType]} Slot ${index + 1}: ${this.describeColor(color, this.plugin.getSlotLabel(slotType, index))}`,
+            preview: [{ type: styleType, value: color }],
+            apply: (editor: Editor) => this.plugin.applySlotColor(editor, styleType, slotType, index),
+        }));
+    }
+
+    private getFavoriteActions(slotType: 'text' | 'highlight'): StyleAction[] {
+        const { settings } = this.plugin;
+        const styleType: StyleType = slotType === 'text' ? 'color' : 'highlight';
+        const colors = slotType === 'text' ? settings.favoriteTextColors : settings.favoriteHighlightColors;
+        const labels = slotType === 'text' ? settings.favoriteTextColorLabels : settings.favoriteHighlightColorLabels;
+        return colors.map((color, index) => ({
+            name: `Favorite ${STYLE_TYPE_NAMES[styleType]}: ${this.describeColor(color, labels[index] ?? null)}`,
+            preview: [{ type: styleType, value: color }],
+            apply: (editor: Editor) => this.plugin.styleManager.toggleStyle(editor, styleType, color),
+        }));
+    }
+
+    private getPresetActions(): StyleAction[] {
+        return this.plugin.settings.presets.map(preset => ({
+            name: `Preset: ${preset.name}`,
+            preview: preset.styles,
+            apply: (editor: Editor) => this.plugin.applyPreset(editor, preset.id),
+        }));
+    }
+
+    private getRemoveActions(): StyleAction[] {
+        const removeActions: StyleAction[] = VALUE_STYLE_TYPES.map(styleType => ({
+            name: `Remove ${STYLE_TYPE_NAMES[styleType]}`,
+            preview: [],
+            apply: (editor: Editor) => this.plugin.styleManager.toggleStyle(editor, styleType, null),
+        }));
+        removeActions.push({
+            name: "Remove All Styling",
+            preview: [],
+            apply: (editor: Editor) => this.plugin.styleManager.removeAllStyling(editor),
+        });
+        return removeActions;
+    }
+
+    private getCurrentColor(slotType: 'text' | 'highlight'): string {
+        const { settings } = this.plugin;
+        return slotType === 'text' ? settings.textColors[settings.selectedTextColorIndex] : settings.highlightColors[settings.selectedHighlightColorIndex];
+    }
+
+    // Label and color, or only the color if it has no label
+    private describeColor(color: string, label: ColorLabel | null): string {
+        return label && label.label ? `${label.label} (${color})` : color;
+    }
+}
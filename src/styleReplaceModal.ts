@@ -0,0 +1,270 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TFile } from "obsidian";
+import TextStyler from "./main";
+import { STYLE_TYPE_NAMES, VALUE_STYLE_TYPES } from "./constants";
+import { getThemeVariable, parseColor } from "./color";
+import { StyleReplaceAction, StyleType } from "./types";
+
+type SearchScope = 'note' | 'folder' | 'vault';
+type ReplaceKind = StyleReplaceAction['kind'];
+
+interface FileMatch {
+    file: TFile;
+    count: number;
+}
+
+/**
+ * Finds styler spans of one style type (and optionally one color) in the current
+ * note, a folder or the whole vault, previews them per file and then recolors,
+ * restyles or removes them.
+ */
+export class StyleReplaceModal extends Modal {
+    private plugin: TextStyler;
+
+    private searchScope: SearchScope = 'note';
+    private folderPath = "";
+    private styleType: StyleType = 'color';
+    private value = "";          // Empty matches any color
+    private kind: ReplaceKind = 'recolor';
+    private newStyleType: StyleType = 'highlight';
+    private newColor = "";
+
+    private matches: FileMatch[] = [];
+    private previewEl: HTMLElement;
+    private replaceButton: ButtonComponent;
+
+    constructor(app: App, plugin: TextStyler) {
+        super(app);
+        this.plugin = plugin;
+        this.folderPath = app.workspace.getActiveFile()?.parent?.path ?? "";
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h1", { text: "Find and Replace Styles" });
+
+        // --- Search ---
+        new Setting(contentEl)
+            .setName("Search In")
+            .addDropdown((dropdown) => dropdown
+                .addOption('note', "Current note")
+                .addOption('folder', "Folder")
+                .addOption('vault', "Entire vault")
+                .setValue(this.searchScope)
+                .onChange((value) => {
+                    this.searchScope = value as SearchScope;
+                    this.render();
+                })
+            );
+
+        if (this.searchScope === 'folder') {
+            new Setting(contentEl)
+                .setName("Folder")
+                .addText((text) => text
+                    .setPlaceholder("Projects/Reading")
+                    .setValue(this.folderPath)
+                    .onChange((value) => { this.folderPath = value.trim(); })
+                );
+        }
+
+        new Setting(contentEl)
+            .setName("Style")
+            .addDropdown((dropdown) => {
+                (Object.keys(STYLE_TYPE_NAMES) as StyleType[]).forEach((type) => dropdown.addOption(type, STYLE_TYPE_NAMES[type]));
+                dropdown
+                    .setValue(this.styleType)
+                    .onChange((value) => {
+                        this.styleType = value as StyleType;
+                        if (!this.isValueStyle(this.styleType) && this.kind === 'recolor') this.kind = 'remove';
+                        this.render();
+                    });
+            });
+
+        if (this.isValueStyle(this.styleType)) {
+            new Setting(contentEl)
+                .setName("Color")
+                .setDesc("Leave empty to match any color.")
+                .addText((text) => text
+                    .setPlaceholder("#ff0000")
+                    .setValue(this.value)
+                    .onChange((value) => { this.value = value.trim(); })
+                );
+        }
+
+        // --- Action ---
+        new Setting(contentEl)
+            .setName("Action")
+            .addDropdown((dropdown) => {
+                if (this.isValueStyle(this.styleType)) dropdown.addOption('recolor', "Replace color");
+                dropdown
+                    .addOption('restyle', "Change to another style")
+                    .addOption('remove', "Remove styling")
+                    .setValue(this.kind)
+                    .onChange((value) => {
+                        this.kind = value as ReplaceKind;
+                        this.render();
+                    });
+            });
+
+        if (this.kind === 'restyle') {
+            new Setting(contentEl)
+                .setName("New Style")
+                .addDropdown((dropdown) => {
+                    (Object.keys(STYLE_TYPE_NAMES) as StyleType[]).forEach((type) => dropdown.addOption(type, STYLE_TYPE_NAMES[type]));
+                    dropdown
+                        .setValue(this.newStyleType)
+                        .onChange((value) => {
+                            this.newStyleType = value as StyleType;
+                            this.render();
+                        });
+                });
+        }
+
+        if (this.kind === 'recolor' || (this.kind === 'restyle' && this.isValueStyle(this.newStyleType))) {
+            new Setting(contentEl)
+                .setName("New Color")
+                .setDesc(this.kind === 'restyle' ? "Leave empty to keep the current color." : "")
+                .addText((text) => {
+                    text
+                        .setPlaceholder("#c00000")
+                        .setValue(this.newColor)
+                        .onChange((value) => {
+                            this.newColor = value.trim();
+                            text.inputEl.toggleClass('styler-invalid-color', !this.isNewColorValid());
+                            this.updateReplaceButton();
+                        });
+                    text.inputEl.toggleClass('styler-invalid-color', !this.isNewColorValid());
+                });
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) => btn
+                .setButtonText("Search")
+                .onClick(() => this.search())
+            )
+            .addButton((btn) => {
+                this.replaceButton = btn
+                    .setButtonText("Replace All")
+                    .setCta()
+                    .onClick(() => this.replaceAll());
+            });
+        this.updateReplaceButton();
+
+        this.previewEl = contentEl.createDiv({ cls: 'styler-replace-preview' });
+        this.renderPreview();
+    }
+
+    // An empty new color is checked by getAction, since restyling may keep the current one
+    private isNewColorValid(): boolean {
+        return !this.newColor || parseColor(this.newColor) !== null || getThemeVariable(this.newColor) !== null;
+    }
+
+    private updateReplaceButton() {
+        const usesNewColor = this.kind === 'recolor' || (this.kind === 'restyle' && this.isValueStyle(this.newStyleType));
+        this.replaceButton.setDisabled(usesNewColor && !this.isNewColorValid());
+    }
+
+    private isValueStyle(styleType: StyleType): boolean {
+        return VALUE_STYLE_TYPES.includes(styleType);
+    }
+
+    private getSearchValue(): string | null {
+        return this.isValueStyle(this.styleType) && this.value ? this.value : null;
+    }
+
+    private getFiles(): TFile[] {
+        if (this.searchScope === 'note') {
+            const file = this.app.workspace.getActiveFile();
+            return file && file.extension === 'md' ? [file] : [];
+        }
+        const files = this.app.vault.getMarkdownFiles();
+        if (this.searchScope === 'vault' || !this.folderPath) return files;
+        const prefix = this.folderPath.replace(/\/+$/, '') + '/';
+        return files.filter(file => file.path.startsWith(prefix));
+    }
+
+    private async search() {
+        const value = this.getSearchValue();
+        this.matches = [];
+        for (const file of this.getFiles()) {
+            const source = await this.app.vault.cachedRead(file);
+            const count = this.plugin.styleManager.countStyleMatches(source, this.styleType, value);
+            if (count > 0) this.matches.push({ file, count });
+        }
+        this.renderPreview();
+    }
+
+    private renderPreview() {
+        this.previewEl.empty();
+        if (this.matches.length === 0) {
+            this.previewEl.createEl("p", { text: "No matches.", cls: 'setting-item-description' });
+            return;
+        }
+
+        const total = this.matches.reduce((sum, match) => sum + match.count, 0);
+        this.previewEl.createEl("p", { text: `${total} matches in ${this.matches.length} files.` });
+        const listEl = this.previewEl.createEl("ul");
+        this.matches.forEach(({ file, count }) => {
+            const itemEl = listEl.createEl("li");
+            const linkEl = itemEl.createEl("a", { text: file.path });
+            linkEl.addEventListener('click', () => this.app.workspace.getLeaf(false).openFile(file));
+            itemEl.createSpan({ text: ` (${count})` });
+        });
+    }
+
+    private getAction(): StyleReplaceAction | null {
+        if (this.kind === 'remove') return { kind: 'remove' };
+        if (this.kind === 'recolor') {
+            if (!this.newColor) {
+                new Notice("Text Styler: Enter the new color.");
+                return null;
+            }
+            return { kind: 'recolor', color: this.newColor };
+        }
+        if (this.isValueStyle(this.newStyleType) && !this.newColor && !this.isValueStyle(this.styleType)) {
+            new Notice("Text Styler: Enter a color for the new style.");
+            return null;
+        }
+        return { kind: 'restyle', styleType: this.newStyleType, color: this.isValueStyle(this.newStyleType) ? this.newColor || null : null };
+    }
+
+    private async replaceAll() {
+        const action = this.getAction();
+        if (!action) return;
+
+        // Search again so the matches always follow the current criteria
+        await this.search();
+        const value = this.getSearchValue();
+        let updatedSpans = 0;
+        let updatedFiles = 0;
+        const skipped: string[] = [];
+
+        for (const { file } of this.matches) {
+            await this.app.vault.process(file, (source) => {
+                const result = this.plugin.styleManager.replaceStyleInText(source, this.styleType, value, action);
+                if (!result) {
+                    skipped.push(file.path);
+                    return source;
+                }
+                if (result.count > 0) {
+                    updatedSpans += result.count;
+                    updatedFiles++;
+                }
+                return result.text;
+            });
+        }
+
+        new Notice(`Text Styler: Updated ${updatedSpans} styled passages in ${updatedFiles} files.`
+            + (skipped.length > 0 ? ` Skipped ${skipped.length} files with unbalanced styler tags.` : ""));
+        this.matches = [];
+        this.renderPreview();
+    }
+}
@@ -0,0 +1,112 @@
+import { MarkdownView } from "obsidian";
+import TextStyler from "./main";
+import { DARK_THEME_BACKGROUND, DARK_THEME_TEXT_COLOR, LIGHT_THEME_BACKGROUND, LIGHT_THEME_TEXT_COLOR, MIN_ADAPTED_CONTRAST } from "./constants";
+import { Rgba, adjustForContrast, getThemeVariable, parseColor, toHex } from "./color";
+import { getEditorView } from "./markdownSyntax";
+import { refreshSpanDecorations } from "./spanDecorations";
+
+// Color variables of styler spans -> variable holding their dark theme variant, read by styles.css
+const ADAPTED_VARIABLES: Record<string, string> = {
+    '--styler-text-color': '--styler-text-color-adapted',
+    '--styler-highlight-color': '--styler-highlight-color-adapted',
+    '--styler-underline-color': '--styler-underline-color-adapted',
+    '--styler-circle-color': '--styler-circle-color-adapted',
+};
+
+const STYLED_SELECTOR = Object.keys(ADAPTED_VARIABLES).map(name => `[style*="${name}"]`).join(', ');
+
+export interface ThemeColors {
+    background: Rgba;
+    text: Rgba;
+}
+
+/**
+ * Adapts styler colors to dark themes at render time, so notes keep a single
+ * color. Text colors are lightened until they are readable on the theme
+ * background; highlights are darkened until the theme's text is readable on
+ * them. The adapted colors go into `*-adapted` variables next to the span's
+ * own, so notes are never rewritten.
+ */
+export class ThemeColorAdapter {
+    private plugin: TextStyler;
+    private darkTheme: ThemeColors | null = null; // Set while colors are adapted
+
+    constructor(plugin: TextStyler) {
+        this.plugin = plugin;
+    }
+
+    // Reads the current theme and re-evaluates all rendered styled text
+    refresh() {
+        const isDark = document.body.hasClass('theme-dark');
+        this.darkTheme = this.plugin.settings.adaptColorsToDarkTheme && isDark ? this.getThemeColors() : null;
+
+        document.querySelectorAll<HTMLElement>('.markdown-rendered').forEach(el => this.adaptElement(el));
+        this.plugin.app.workspace.iterateAllLeaves(leaf => {
+            if (!(leaf.view instanceof MarkdownView)) return;
+            getEditorView(leaf.view.editor)?.dispatch({ effects: refreshSpanDecorations.of(null) });
+        });
+    }
+
+    // Adapted variables to add to a span's own variables; none outside dark themes
+    getAdaptedVariables(variables: Record<string, string>): Record<string, string> {
+        const adapted: Record<string, string> = {};
+        if (!this.darkTheme) return adapted;
+        Object.entries(variables).forEach(([name, value]) => {
+            const adaptedName = ADAPTED_VARIABLES[name];
+            if (adaptedName) adapted[adaptedName] = this.adapt(value, name === '--styler-highlight-color', this.darkTheme as ThemeColors);
+        });
+        return adapted;
+    }
+
+    // Sets or clears the adapted variables of the styled elements in rendered Markdown
+    adaptElement(containerEl: HTMLElement) {
+        containerEl.querySelectorAll<HTMLElement>(STYLED_SELECTOR).forEach(el => {
+            Object.entries(ADAPTED_VARIABLES).forEach(([name, adaptedName]) => {
+                const value = el.style.getPropertyValue(name).trim();
+                if (value && this.darkTheme) {
+                    el.style.setProperty(adaptedName, this.adapt(value, name === '--styler-highlight-color', this.darkTheme));
+                } else {
+                    el.style.removeProperty(adaptedName);
+                }
+            });
+        });
+    }
+
+    // Dark theme variant of a color, against the active dark theme or Obsidian's default one
+    getDarkVariant(color: string, isHighlight: boolean): string {
+        const theme = this.darkTheme ?? {
+            background: parseColor(DARK_THEME_BACKGROUND) as Rgba,
+            text: parseColor(DARK_THEME_TEXT_COLOR) as Rgba,
+        };
+        return this.adapt(color, isHighlight, theme);
+    }
+
+    // Literal color of a value, with theme variables resolved in the active theme
+    resolveColor(value: string): Rgba | null {
+        const variable = getThemeVariable(value);
+        if (!variable) return parseColor(value);
+        return parseColor(getComputedStyle(document.body).getPropertyValue(variable));
+    }
+
+    // Note background and text color of the active theme
+    getThemeColors(): ThemeColors {
+        const style = getComputedStyle(document.body);
+        const isDark = document.body.hasClass('theme-dark');
+        return {
+            background: parseColor(style.getPropertyValue('--background-primary'))
+                ?? parseColor(isDark ? DARK_THEME_BACKGROUND : LIGHT_THEME_BACKGROUND) as Rgba,
+            text: parseColor(style.getPropertyValue('--text-normal'))
+                ?? parseColor(isDark ? DARK_THEME_TEXT_COLOR : LIGHT_THEME_TEXT_COLOR) as Rgba,
+        };
+    }
+
+    // Colors that cannot be parsed, like theme variables, are left to the theme
+    private adapt(value: string, isHighlight: boolean, theme: ThemeColors): string {
+        const color = parseColor(value);
+        if (!color) return value;
+        const adapted = isHighlight
+            ? adjustForContrast(color, theme.text, MIN_ADAPTED_CONTRAST, theme.background)
+            : adjustForContrast(color, theme.background, MIN_ADAPTED_CONTRAST);
+        return adapted === color ? value : toHex(adapted);
+    }
+}
@@ -1,34 +1,178 @@
+import { EditorPosition } from "obsidian";
+
 export interface PluginSettings {
     textColorSlots: number;
     textColors: string[];        // Current colors in text slots
+    textColorLabels: ColorLabel[]; // Label per text slot, same length as textColors
     favoriteTextColors: string[]; // Palette for text color modal
+    favoriteTextColorLabels: ColorLabel[]; // Label per favorite text color
     selectedTextColorIndex: number;
   
     highlightColorSlots: number;
     highlightColors: string[];     // Current colors in highlight slots
+    highlightColorLabels: ColorLabel[]; // Label per highlight slot, same length as highlightColors
     favoriteHighlightColors: string[]; // Palette for highlight color modal
+    favoriteHighlightColorLabels: ColorLabel[]; // Label per favorite highlight color
     selectedHighlightColorIndex: number;
   
     coloredUnderlineThickness: number; // Thickness in pixels
     circleThickness: number;          // Thickness in pixels
+    highlightOpacity: number;         // Percent applied on top of each highlight color's own alpha
+    adaptColorsToDarkTheme: boolean;  // Adjust colors for readability while a dark theme is active
+
+    expandEmptySelection: boolean;    // Empty selection styles the word (or styler span) at the cursor
+
+    outputModes: Record<MarkdownStyleType, OutputMode>; // HTML span or native Markdown per style
+
+    hideSpanMarkup: boolean;          // Hide styler span tags in the editor unless the cursor is inside
+
+    presets: StylePreset[];           // Named combinations of styles
+
+    showFloatingToolbar: boolean;     // Show a toolbar next to non-empty selections
+    toolbarButtons: ToolbarButton[];  // Buttons of the floating toolbar, in display order
   
     // Could add default states for toggles later if needed
   }
   
   export type StyleType = 'bold' | 'italic' | 'underline' | 'strike' | 'color' | 'highlight' | 'colored-underline'  | 'circled' ;
   
+  // Optional meaning of a slot or favorite color, e.g. "Definition" for a green highlight
+  export interface ColorLabel {
+    label: string;       // Empty if unlabeled
+    description: string;
+  }
+
+  // A button of the floating toolbar: a style, or removing all styling
+  export type ToolbarButton = StyleType | 'remove-all';
+
+  // One style of a preset, with its color for value-based styles
+  export interface PresetStyle {
+    type: StyleType;
+    value: string | null;
+  }
+
+  // A named compound style, applied and removed as a single edit
+  export interface StylePreset {
+    id: string;   // Stable id used for the preset's command
+    name: string;
+    styles: PresetStyle[];
+  }
+
+  // What to do with styled text found by the style find-and-replace
+  export type StyleReplaceAction =
+    | { kind: 'recolor', color: string }                          // Keep the style, change its color
+    | { kind: 'restyle', styleType: StyleType, color: string | null } // Swap for another style (keeps the color if none given)
+    | { kind: 'remove' };
+
+  // A run of text carrying one style, found by scanning a note's styler spans
+  export interface StyledRun {
+    style: PresetStyle;  // Style type and its color (null for styles without one)
+    start: number;       // Offset of the first styled character
+    end: number;         // Offset just after the last styled character (inner tags included)
+    text: string;        // Text content without tags
+  }
+
+  // Styles that have a native Markdown equivalent
+  export type MarkdownStyleType = 'bold' | 'italic' | 'strike' | 'highlight';
+
+  export type OutputMode = 'html' | 'markdown';
+
+  // Markdown delimiters found around (or at the edges of) a selection
+  export interface MarkdownWrap {
+    fromOffset: number;  // Document range covering the selection and its markers
+    toOffset: number;
+    char: string | null; // Delimiter character in use, null if unstyled
+    lead: string;        // Opening delimiter run
+    content: string;
+    trail: string;       // Closing delimiter run
+  }
+
+  // A styler span found by the span tree parser. Offsets are relative to the parsed text.
+  export interface StylerSpanNode {
+    type: 'span';
+    startTag: string;          // The full opening tag <span ...>
+    openStart: number;         // Offset of the opening tag start
+    openEnd: number;           // Offset just after the opening tag
+    closeStart: number;        // Offset of the closing tag start (-1 if unclosed)
+    closeEnd: number;          // Offset just after the closing tag (-1 if unclosed)
+    classList: string[];
+    variables: Record<string, string>; // --styler-* custom properties from the style attribute
+    children: SpanTreeNode[];
+    parent: StylerSpanNode | null;
+  }
+
+  // Plain text between styler tags (may contain foreign HTML kept verbatim)
+  export interface SpanTextNode {
+    type: 'text';
+    text: string;
+    start: number;
+    end: number;
+  }
+
+  export type SpanTreeNode = StylerSpanNode | SpanTextNode;
+
+  export interface SpanTree {
+    source: string;
+    children: SpanTreeNode[];
+    isBalanced: boolean; // False if orphan closing or unclosed opening tags were found
+  }
+
   // Describes a segment within the user's selection
   export interface SelectionSegment {
     text: string;
     start: number; // Original offset relative to selection start
     end: number;   // Original offset relative to selection start
-    
-    // Info about the span wrapping this segment (if any)
-    span: {
-        startTag: string; // The full opening tag <span ...>
-        startTagOffset: number; // Offset of tag start relative to selection start
-        endTagOffset: number; // Offset of tag end relative to selection start
-        classList: string[];
-        style: Record<string, string>; // Parsed inline style attributes
-    } | null;
-  }
\ No newline at end of file
+
+    spans: StylerSpanNode[]; // Enclosing styler spans, outermost first
+
+    // Effective style of the enclosing spans (if any)
+    span: SegmentStyle | null;
+  }
+
+  // Classes and --styler-* variables that make up the style of a piece of text
+  export interface SegmentStyle {
+    classList: string[];
+    variables: Record<string, string>; // Merged --styler-* variables, inner spans win
+  }
+
+  // Part of a segment, split at selection boundaries
+  export interface StylePiece extends SelectionSegment {
+    selectionIndices: number[]; // Selections covering this piece, empty if outside all selections
+  }
+
+  // Document region rewritten as a whole: the selections plus any styler spans they cut through
+  export interface StyleRegion {
+    range: SelectionRange;
+    pieces: StylePiece[];
+    selectionIndices: number[]; // Selections handled by this region
+    isCaret: boolean;           // Region is an empty selection
+    caretOffsets: Record<number, number>; // Cursors to restore per selection index, relative to the region start
+  }
+
+  // Parser output for a piece of text: the span tree and its flattened segments
+  export interface ParsedSelection {
+    tree: SpanTree;
+    segments: SelectionSegment[];
+  }
+
+  // Plain [start, end) offset pair
+  export interface OffsetRange {
+    start: number;
+    end: number;
+  }
+
+  // A normalized (from <= to) editor selection with its document offsets
+  export interface SelectionRange {
+    from: EditorPosition;
+    to: EditorPosition;
+    fromOffset: number;
+    toOffset: number;
+    caretOffset?: number; // Original cursor offset when an empty selection was expanded
+  }
+
+  // Replacement text computed for one document range
+  export interface RangeReplacement {
+    range: SelectionRange;
+    text: string | null;                          // Null leaves the range untouched
+    selections: { anchor: number, head: number }[]; // Offsets relative to the range start after replacement
+  }
@@ -1,32 +1,8 @@
 // src/utils.ts
-export function rgbToHex(rgb: string): string {
-    // Match rgb(r, g, b) format
-    const match = rgb.match(/^rgb\((\d+),\s*(\d+),\s*(\d+)\)$/);
-    if (!match) return '#000000'; // Default or throw error
+import { ColorLabel } from "./types";
 
-    const r = parseInt(match[1]);
-    const g = parseInt(match[2]);
-    const b = parseInt(match[3]);
-
-    const componentToHex = (c: number): string => {
-        const hex = c.toString(16);
-        return hex.length == 1 ? "0" + hex : hex;
-    };
-
-    return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
-}
-
-export function hexToRgb(hex: string): string {
-    // Remove leading #
-    const shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
-    hex = hex.replace(shorthandRegex, (m, r, g, b) => r + r + g + g + b + b);
-
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    if (!result) return 'rgb(0, 0, 0)'; // Default or throw error
-
-    const r = parseInt(result[1], 16);
-    const g = parseInt(result[2], 16);
-    const b = parseInt(result[3], 16);
-
-    return `rgb(${r}, ${g}, ${b})`;
+// Tooltip for a color: its label and description if it has one, else the color value
+export function formatColorTooltip(color: string, label: ColorLabel | null): string {
+    if (!label || !label.label) return color;
+    return label.description ? `${label.label} (${color})\n${label.description}` : `${label.label} (${color})`;
 }